@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { CalendarIcon, Repeat } from "lucide-react";
+import { repeatWorkoutAction } from "../actions";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import type { WeekStartDay } from "@/lib/settings";
+
+interface RepeatWorkoutDialogProps {
+  workoutId: number;
+  workoutName: string | null;
+  weekStartsOn: WeekStartDay;
+}
+
+export function RepeatWorkoutDialog({
+  workoutId,
+  workoutName,
+  weekStartsOn,
+}: RepeatWorkoutDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState<Date>(() => new Date());
+  const [copySets, setCopySets] = useState(true);
+  const [isRepeating, setIsRepeating] = useState(false);
+
+  async function handleRepeat() {
+    setIsRepeating(true);
+    try {
+      const result = await repeatWorkoutAction({
+        workoutId,
+        date: format(date, "yyyy-MM-dd"),
+        copySets,
+      });
+      setOpen(false);
+      router.push(`/dashboard/workout/${result.workoutId}`);
+    } finally {
+      setIsRepeating(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Repeat className="h-4 w-4 mr-2" />
+          Repeat
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Repeat {workoutName || "Workout"}</DialogTitle>
+          <DialogDescription>
+            Start a new workout with the same exercises in the same order.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start font-normal"
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {format(date, "do MMM yyyy")}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={date}
+                  onSelect={(newDate) => newDate && setDate(newDate)}
+                  weekStartsOn={weekStartsOn}
+                  autoFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`copy-sets-${workoutId}`}
+              checked={copySets}
+              onCheckedChange={(checked) => setCopySets(checked === true)}
+            />
+            <Label htmlFor={`copy-sets-${workoutId}`} className="font-normal">
+              Use this workout&apos;s weights and reps as targets
+            </Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleRepeat} disabled={isRepeating}>
+            {isRepeating ? "Creating..." : "Repeat Workout"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
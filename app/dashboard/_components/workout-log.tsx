@@ -1,10 +1,24 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { format } from "date-fns";
-import { CalendarIcon, Dumbbell, Pencil } from "lucide-react";
+import {
+  BarChart3,
+  CalendarIcon,
+  CalendarRange,
+  ClipboardList,
+  Dumbbell,
+  Pencil,
+  Play,
+  Settings,
+} from "lucide-react";
+import { startPlannedSessionAction } from "../actions";
+import { WorkoutSummaryStats } from "./workout-summary";
+import { RepeatWorkoutDialog } from "./repeat-workout-dialog";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
@@ -19,15 +33,78 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import type { WorkoutWithExercises } from "@/data/workouts";
+import type { PlannedSession } from "@/data/programs";
+import {
+  PERSONAL_RECORD_LABELS,
+  type PersonalRecords,
+} from "@/lib/strength";
+import type { WeightUnit } from "@/lib/units";
+import type { WeekStartDay } from "@/lib/settings";
+import { formatClock, summarizeWorkout } from "@/lib/sessions";
+import { SET_TYPE_LABELS, SET_TYPE_SHORT_LABELS } from "@/lib/sets";
+import { cn } from "@/lib/utils";
+import { groupLabel, groupWorkoutExercises } from "@/lib/supersets";
+import {
+  MEASUREMENT_FIELDS,
+  setFieldLabel,
+  type SetField,
+} from "@/lib/measurements";
+
+type WorkoutSet = WorkoutWithExercises["exercises"][number]["sets"][number];
+
+function formatSetField(field: SetField, set: WorkoutSet): string {
+  switch (field) {
+    case "weight":
+      return set.weight ?? "-";
+    case "reps":
+      return set.reps?.toString() ?? "-";
+    case "distance":
+      return set.distance?.toString() ?? "-";
+    case "durationSeconds":
+      return set.durationSeconds !== null
+        ? formatClock(set.durationSeconds)
+        : "-";
+  }
+}
 
 interface WorkoutLogProps {
   workouts: WorkoutWithExercises[];
+  plannedSessions: PlannedSession[];
+  personalRecords: PersonalRecords;
+  weightUnit: WeightUnit;
+  weekStartsOn: WeekStartDay;
   selectedDate: Date;
 }
 
-export function WorkoutLog({ workouts, selectedDate }: WorkoutLogProps) {
+export function WorkoutLog({
+  workouts,
+  plannedSessions,
+  personalRecords,
+  weightUnit,
+  weekStartsOn,
+  selectedDate,
+}: WorkoutLogProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const [startingSessionId, setStartingSessionId] = useState<number | null>(
+    null
+  );
+
+  const handleStartSession = async (sessionId: number) => {
+    setStartingSessionId(sessionId);
+    try {
+      const result = await startPlannedSessionAction({ sessionId });
+      router.push(`/dashboard/workout/${result.workoutId}`);
+    } catch {
+      setStartingSessionId(null);
+    }
+  };
+
+  // Read today's date from the browser when clicked, so the volume page's
+  // current week follows the user's clock rather than the server's
+  const handleOpenVolume = () => {
+    router.push(`/dashboard/volume?date=${format(new Date(), "yyyy-MM-dd")}`);
+  };
 
   const handleDateChange = (newDate: Date | undefined) => {
     if (!newDate) return;
@@ -44,6 +121,33 @@ export function WorkoutLog({ workouts, selectedDate }: WorkoutLogProps) {
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-bold">Workout Log</h1>
           <div className="flex items-center gap-2">
+            <Button asChild variant="outline" size="icon">
+              <Link href="/dashboard/settings" aria-label="Settings">
+                <Settings className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/exercises">
+                <Dumbbell className="h-4 w-4 mr-2" />
+                Exercises
+              </Link>
+            </Button>
+            <Button variant="outline" onClick={handleOpenVolume}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Volume
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/programs">
+                <CalendarRange className="h-4 w-4 mr-2" />
+                Programs
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/templates">
+                <ClipboardList className="h-4 w-4 mr-2" />
+                Templates
+              </Link>
+            </Button>
             <Button asChild>
               <Link href={`/dashboard/workout/new?date=${format(selectedDate, "yyyy-MM-dd")}`}>
                 Log New Workout
@@ -61,6 +165,7 @@ export function WorkoutLog({ workouts, selectedDate }: WorkoutLogProps) {
                   mode="single"
                   selected={selectedDate}
                   onSelect={handleDateChange}
+                  weekStartsOn={weekStartsOn}
                   autoFocus
                 />
               </PopoverContent>
@@ -68,6 +173,36 @@ export function WorkoutLog({ workouts, selectedDate }: WorkoutLogProps) {
           </div>
         </div>
 
+        {plannedSessions.length > 0 && (
+          <div className="grid gap-4">
+            {plannedSessions.map((session) => (
+              <Card key={session.id} className="border-dashed">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <CardTitle>{session.templateName}</CardTitle>
+                      <CardDescription>
+                        Planned · {session.programName}, week{" "}
+                        {session.weekNumber}
+                      </CardDescription>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => handleStartSession(session.id)}
+                      disabled={startingSessionId !== null}
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      {startingSessionId === session.id
+                        ? "Starting..."
+                        : "Start Session"}
+                    </Button>
+                  </div>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        )}
+
         <div className="grid gap-4">
           {workouts.length === 0 ? (
             <Card>
@@ -90,14 +225,29 @@ export function WorkoutLog({ workouts, selectedDate }: WorkoutLogProps) {
                           <CardDescription>{workout.notes}</CardDescription>
                         )}
                       </div>
-                      <Button asChild variant="outline" size="sm">
-                        <Link href={`/dashboard/workout/${workout.id}`}>
-                          <Pencil className="h-4 w-4 mr-2" />
-                          Edit
-                        </Link>
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        <RepeatWorkoutDialog
+                          workoutId={workout.id}
+                          workoutName={workout.name}
+                          weekStartsOn={weekStartsOn}
+                        />
+                        <Button asChild variant="outline" size="sm">
+                          <Link href={`/dashboard/workout/${workout.id}`}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </Link>
+                        </Button>
+                      </div>
                     </div>
                   </CardHeader>
+                  {workout.completedAt && (
+                    <CardContent>
+                      <WorkoutSummaryStats
+                        summary={summarizeWorkout(workout, personalRecords)}
+                        weightUnit={weightUnit}
+                      />
+                    </CardContent>
+                  )}
                   {workout.exercises.length === 0 && (
                     <CardContent>
                       <p className="text-muted-foreground text-sm">
@@ -106,36 +256,122 @@ export function WorkoutLog({ workouts, selectedDate }: WorkoutLogProps) {
                     </CardContent>
                   )}
                 </Card>
-                {workout.exercises.map((exercise) => (
-                  <Card key={exercise.id}>
-                    <CardHeader>
-                      <CardTitle className="flex items-center gap-2">
-                        <Dumbbell className="h-5 w-5" />
-                        {exercise.name}
-                      </CardTitle>
-                      <CardDescription>
-                        {exercise.sets.length} sets logged
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="grid grid-cols-3 gap-2 text-sm font-medium text-muted-foreground mb-2">
-                        <span>Set</span>
-                        <span>Weight (lbs)</span>
-                        <span>Reps</span>
-                      </div>
-                      {exercise.sets.map((set) => (
-                        <div
-                          key={set.setNumber}
-                          className="grid grid-cols-3 gap-2 py-2 border-t"
-                        >
-                          <span>{set.setNumber}</span>
-                          <span>{set.weight ?? "-"}</span>
-                          <span>{set.reps ?? "-"}</span>
+                {groupWorkoutExercises(workout.exercises).map((group) => {
+                  const cards = group.map((exercise) => (
+                    <Card key={exercise.id}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                          <Dumbbell className="h-5 w-5" />
+                          <Link
+                            href={`/dashboard/exercises/${exercise.exerciseId}`}
+                            className="hover:underline"
+                          >
+                            {exercise.name}
+                          </Link>
+                          {personalRecords.volume.includes(exercise.id) && (
+                            <Badge variant="secondary">Volume PR</Badge>
+                          )}
+                        </CardTitle>
+                        <CardDescription>
+                          {exercise.sets.length} sets logged
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="grid grid-cols-3 gap-2 text-sm font-medium text-muted-foreground mb-2">
+                          <span>Set</span>
+                          {MEASUREMENT_FIELDS[exercise.measurementType].map(
+                            (field, _, fields) => (
+                              <span
+                                key={field}
+                                className={cn(
+                                  fields.length === 1 && "col-span-2"
+                                )}
+                              >
+                                {setFieldLabel(
+                                  field,
+                                  exercise.measurementType,
+                                  weightUnit
+                                )}
+                              </span>
+                            )
+                          )}
                         </div>
-                      ))}
-                    </CardContent>
-                  </Card>
-                ))}
+                        {exercise.sets.map((set) => (
+                          <div
+                            key={set.id}
+                            className={cn(
+                              "grid grid-cols-3 gap-2 py-2 border-t",
+                              set.setType === "warmup" &&
+                                "text-muted-foreground"
+                            )}
+                          >
+                            <span className="flex items-center gap-2">
+                              {set.setNumber}
+                              {SET_TYPE_SHORT_LABELS[set.setType] && (
+                                <Badge
+                                  variant="outline"
+                                  title={SET_TYPE_LABELS[set.setType]}
+                                >
+                                  {SET_TYPE_SHORT_LABELS[set.setType]}
+                                </Badge>
+                              )}
+                              {personalRecords.sets[set.id] && (
+                                <Badge
+                                  title={personalRecords.sets[set.id]
+                                    .map((record) => PERSONAL_RECORD_LABELS[record])
+                                    .join(", ")}
+                                >
+                                  PR
+                                </Badge>
+                              )}
+                            </span>
+                            {MEASUREMENT_FIELDS[exercise.measurementType].map(
+                              (field, index, fields) => (
+                                <span
+                                  key={field}
+                                  className={cn(
+                                    fields.length === 1 && "col-span-2"
+                                  )}
+                                >
+                                  {formatSetField(field, set)}
+                                  {index === fields.length - 1 &&
+                                    set.rpe !== null && (
+                                      <span className="text-muted-foreground">
+                                        {" "}
+                                        @{set.rpe}
+                                      </span>
+                                    )}
+                                  {index === fields.length - 1 &&
+                                    set.rir !== null && (
+                                      <span className="text-muted-foreground">
+                                        {" "}
+                                        ({set.rir} RIR)
+                                      </span>
+                                    )}
+                                </span>
+                              )
+                            )}
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  ));
+
+                  return group.length > 1 ? (
+                    <div
+                      key={group[0].id}
+                      className="space-y-2 border-l-4 border-primary pl-3"
+                    >
+                      <p className="text-sm font-medium text-muted-foreground">
+                        {groupLabel(group.length)}:{" "}
+                        {group.map((exercise) => exercise.name).join(" + ")}
+                      </p>
+                      {cards}
+                    </div>
+                  ) : (
+                    cards[0]
+                  );
+                })}
               </div>
             ))
           )}
@@ -0,0 +1,36 @@
+import { Clock, Dumbbell, ListChecks, Trophy } from "lucide-react";
+import { formatDuration, type WorkoutSummary } from "@/lib/sessions";
+import { WEIGHT_UNIT_LABELS, type WeightUnit } from "@/lib/units";
+
+interface WorkoutSummaryStatsProps {
+  summary: WorkoutSummary;
+  weightUnit: WeightUnit;
+}
+
+export function WorkoutSummaryStats({
+  summary,
+  weightUnit,
+}: WorkoutSummaryStatsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+      {summary.durationMs !== null && (
+        <span className="flex items-center gap-1">
+          <Clock className="h-4 w-4" />
+          {formatDuration(summary.durationMs)}
+        </span>
+      )}
+      <span className="flex items-center gap-1">
+        <Dumbbell className="h-4 w-4" />
+        {summary.totalVolume.toLocaleString()} {WEIGHT_UNIT_LABELS[weightUnit]}
+      </span>
+      <span className="flex items-center gap-1">
+        <ListChecks className="h-4 w-4" />
+        {summary.setCount} sets
+      </span>
+      <span className="flex items-center gap-1">
+        <Trophy className="h-4 w-4" />
+        {summary.prCount} PRs
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use server";
+
+import { z } from "zod";
+import { startPlannedSession } from "@/data/programs";
+import { repeatWorkout } from "@/data/workouts";
+import { revalidatePath } from "next/cache";
+
+const StartPlannedSessionSchema = z.object({
+  sessionId: z.number(),
+});
+
+type StartPlannedSessionInput = z.infer<typeof StartPlannedSessionSchema>;
+
+export async function startPlannedSessionAction(
+  input: StartPlannedSessionInput
+) {
+  const validated = StartPlannedSessionSchema.parse(input);
+
+  const workout = await startPlannedSession(validated.sessionId);
+
+  revalidatePath("/dashboard");
+
+  return { workoutId: workout.id };
+}
+
+// Copy a past workout onto a new date
+const RepeatWorkoutSchema = z.object({
+  workoutId: z.number(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
+  copySets: z.boolean(),
+});
+
+type RepeatWorkoutInput = z.infer<typeof RepeatWorkoutSchema>;
+
+export async function repeatWorkoutAction(input: RepeatWorkoutInput) {
+  const validated = RepeatWorkoutSchema.parse(input);
+
+  const workout = await repeatWorkout(validated);
+
+  revalidatePath("/dashboard");
+
+  return { workoutId: workout.id };
+}
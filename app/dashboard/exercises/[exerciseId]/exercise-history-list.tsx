@@ -0,0 +1,96 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  PERSONAL_RECORD_LABELS,
+  type PersonalRecords,
+} from "@/lib/strength";
+import { WEIGHT_UNIT_LABELS, type WeightUnit } from "@/lib/units";
+
+interface ExerciseHistoryListProps {
+  sessions: {
+    workoutExerciseId: number;
+    workoutId: number;
+    workoutName: string | null;
+    date: string;
+    totalVolume: number;
+    sets: { id: number; setNumber: number; weight: number; reps: number }[];
+  }[];
+  personalRecords: PersonalRecords;
+  weightUnit: WeightUnit;
+}
+
+export function ExerciseHistoryList({
+  sessions,
+  personalRecords,
+  weightUnit,
+}: ExerciseHistoryListProps) {
+  if (sessions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          No sets logged for this exercise yet
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {sessions.map((session) => (
+        <Card key={session.workoutExerciseId}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Link
+                href={`/dashboard/workout/${session.workoutId}`}
+                className="hover:underline"
+              >
+                {format(new Date(`${session.date}T00:00:00`), "do MMM yyyy")}
+              </Link>
+              {personalRecords.volume.includes(session.workoutExerciseId) && (
+                <Badge variant="secondary">Volume PR</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {session.workoutName || "Workout"} ·{" "}
+              {session.totalVolume.toLocaleString()}{" "}
+              {WEIGHT_UNIT_LABELS[weightUnit]} total
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-2 text-sm font-medium text-muted-foreground mb-2">
+              <span>Set</span>
+              <span>Weight ({WEIGHT_UNIT_LABELS[weightUnit]})</span>
+              <span>Reps</span>
+            </div>
+            {session.sets.map((set) => (
+              <div key={set.id} className="grid grid-cols-3 gap-2 py-2 border-t">
+                <span className="flex items-center gap-2">
+                  {set.setNumber}
+                  {personalRecords.sets[set.id] && (
+                    <Badge
+                      title={personalRecords.sets[set.id]
+                        .map((record) => PERSONAL_RECORD_LABELS[record])
+                        .join(", ")}
+                    >
+                      PR
+                    </Badge>
+                  )}
+                </span>
+                <span>{set.weight}</span>
+                <span>{set.reps}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
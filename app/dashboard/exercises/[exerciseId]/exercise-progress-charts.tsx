@@ -0,0 +1,88 @@
+"use client";
+
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { WEIGHT_UNIT_LABELS, type WeightUnit } from "@/lib/units";
+
+interface ExerciseProgressChartsProps {
+  sessions: {
+    date: string;
+    topSetWeight: number;
+    bestE1rm: number;
+    totalVolume: number;
+  }[];
+  weightUnit: WeightUnit;
+}
+
+const charts = [
+  { key: "topSetWeight", title: "Top Set Weight" },
+  { key: "bestE1rm", title: "Estimated 1RM" },
+  { key: "totalVolume", title: "Total Volume" },
+] as const;
+
+export function ExerciseProgressCharts({
+  sessions,
+  weightUnit,
+}: ExerciseProgressChartsProps) {
+  if (sessions.length < 2) {
+    return null;
+  }
+
+  const unitLabel = WEIGHT_UNIT_LABELS[weightUnit];
+  const chartConfig = {
+    topSetWeight: { label: `Top set (${unitLabel})`, color: "var(--chart-1)" },
+    bestE1rm: { label: `Estimated 1RM (${unitLabel})`, color: "var(--chart-2)" },
+    totalVolume: { label: `Volume (${unitLabel})`, color: "var(--chart-3)" },
+  } satisfies ChartConfig;
+
+  const data = sessions.map((session) => ({
+    ...session,
+    label: format(new Date(`${session.date}T00:00:00`), "d MMM"),
+  }));
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      {charts.map((chart) => (
+        <Card key={chart.key}>
+          <CardHeader>
+            <CardTitle>{chart.title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig}>
+              <LineChart data={data} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={40}
+                  domain={["auto", "auto"]}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey={chart.key}
+                  type="monotone"
+                  stroke={`var(--color-${chart.key})`}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
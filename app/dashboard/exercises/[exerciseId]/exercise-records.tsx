@@ -0,0 +1,50 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { WEIGHT_UNIT_LABELS, type WeightUnit } from "@/lib/units";
+
+interface ExerciseRecordsProps {
+  bestE1rm: number;
+  bestVolume: number;
+  repMaxes: { reps: number; weight: number }[];
+  weightUnit: WeightUnit;
+}
+
+export function ExerciseRecords({
+  bestE1rm,
+  bestVolume,
+  repMaxes,
+  weightUnit,
+}: ExerciseRecordsProps) {
+  const unitLabel = WEIGHT_UNIT_LABELS[weightUnit];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal Records</CardTitle>
+        <CardDescription>
+          Best estimated 1RM {bestE1rm.toFixed(1)} {unitLabel} · best session
+          volume {bestVolume.toLocaleString()} {unitLabel}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {repMaxes.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No sets logged yet</p>
+        ) : (
+          <div className="grid grid-cols-4 gap-2 text-sm sm:grid-cols-8">
+            {repMaxes.map((repMax) => (
+              <div key={repMax.reps} className="rounded-md border p-2">
+                <p className="text-muted-foreground">{repMax.reps}RM</p>
+                <p className="font-medium">{repMax.weight} {unitLabel}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getExerciseById } from "@/data/exercises";
+import { getExerciseSetHistory } from "@/data/analytics";
+import { getUserSettings } from "@/data/users";
+import {
+  findPersonalRecords,
+  getRepMaxes,
+  summarizeSessions,
+} from "@/lib/strength";
+import { roundWeight } from "@/lib/units";
+import {
+  EQUIPMENT_LABELS,
+  MOVEMENT_PATTERN_LABELS,
+  MUSCLE_GROUP_LABELS,
+} from "@/lib/exercise-metadata";
+import { Button } from "@/components/ui/button";
+import { ExerciseProgressCharts } from "./exercise-progress-charts";
+import { ExerciseRecords } from "./exercise-records";
+import { ExerciseHistoryList } from "./exercise-history-list";
+
+type Params = Promise<{ exerciseId: string }>;
+
+export default async function ExerciseHistoryPage({
+  params,
+}: {
+  params: Params;
+}) {
+  const { exerciseId } = await params;
+
+  const [exercise, history, { weightUnit, e1rmFormula }] = await Promise.all([
+    getExerciseById(Number(exerciseId)),
+    getExerciseSetHistory([Number(exerciseId)]),
+    getUserSettings(),
+  ]);
+
+  if (!exercise) {
+    notFound();
+  }
+
+  // e.g. "Chest · also Front delts, Triceps · Barbell · Horizontal push"
+  const details = [
+    exercise.primaryMuscles.map((m) => MUSCLE_GROUP_LABELS[m]).join(", "),
+    exercise.secondaryMuscles.length > 0 &&
+      `also ${exercise.secondaryMuscles
+        .map((m) => MUSCLE_GROUP_LABELS[m])
+        .join(", ")}`,
+    exercise.equipment && EQUIPMENT_LABELS[exercise.equipment],
+    exercise.movementPattern && MOVEMENT_PATTERN_LABELS[exercise.movementPattern],
+    exercise.unilateral && "Unilateral",
+  ].filter(Boolean);
+
+  const summaries = summarizeSessions(history, e1rmFormula);
+  const personalRecords = findPersonalRecords(history, e1rmFormula);
+
+  // Group sets by session, keeping the chronological order of the history
+  const sessions = summaries.map((summary) => {
+    const sessionSets = history.filter(
+      (set) => set.workoutExerciseId === summary.workoutExerciseId
+    );
+
+    return {
+      ...summary,
+      date: sessionSets[0].date,
+      workoutId: sessionSets[0].workoutId,
+      workoutName: sessionSets[0].workoutName,
+      sets: sessionSets.map((set) => ({
+        id: set.setId,
+        setNumber: set.setNumber,
+        weight: roundWeight(set.weight),
+        reps: set.reps,
+      })),
+    };
+  });
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">{exercise.name}</h1>
+            {details.length > 0 && (
+              <p className="text-muted-foreground">{details.join(" · ")}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="outline">
+              <Link href="/dashboard/exercises">All Exercises</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/dashboard">Back to Log</Link>
+            </Button>
+          </div>
+        </div>
+
+        <ExerciseRecords
+          bestE1rm={Math.max(0, ...summaries.map((s) => s.bestE1rm))}
+          bestVolume={roundWeight(
+            Math.max(0, ...summaries.map((s) => s.totalVolume))
+          )}
+          repMaxes={getRepMaxes(history).map((repMax) => ({
+            ...repMax,
+            weight: roundWeight(repMax.weight),
+          }))}
+          weightUnit={weightUnit}
+        />
+        <ExerciseProgressCharts
+          sessions={sessions.map((session) => ({
+            date: session.date,
+            topSetWeight: roundWeight(session.topSetWeight),
+            bestE1rm: Math.round(session.bestE1rm * 10) / 10,
+            totalVolume: Math.round(session.totalVolume),
+          }))}
+          weightUnit={weightUnit}
+        />
+        <ExerciseHistoryList
+          sessions={[...sessions].reverse().map((session) => ({
+            ...session,
+            totalVolume: Math.round(session.totalVolume),
+          }))}
+          personalRecords={personalRecords}
+          weightUnit={weightUnit}
+        />
+      </div>
+    </div>
+  );
+}
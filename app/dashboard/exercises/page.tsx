@@ -0,0 +1,84 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { Dumbbell } from "lucide-react";
+import { getTrainedExercises } from "@/data/analytics";
+import {
+  EQUIPMENT_LABELS,
+  MUSCLE_GROUP_LABELS,
+  groupByPrimaryMuscle,
+} from "@/lib/exercise-metadata";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export default async function ExercisesPage() {
+  const trainedExercises = await getTrainedExercises();
+  const groups = groupByPrimaryMuscle(trainedExercises);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Exercises</h1>
+          <Button asChild variant="outline">
+            <Link href="/dashboard">Back to Log</Link>
+          </Button>
+        </div>
+
+        {groups.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Dumbbell className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground text-center">
+                Exercises you log will show up here
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map((group) => (
+            <Card key={group.muscle ?? "other"}>
+              <CardHeader>
+                <CardTitle>
+                  {group.muscle ? MUSCLE_GROUP_LABELS[group.muscle] : "Other"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y">
+                  {group.exercises.map((exercise) => (
+                    <Link
+                      key={exercise.id}
+                      href={`/dashboard/exercises/${exercise.id}`}
+                      className="flex items-center justify-between py-2 text-sm hover:underline"
+                    >
+                      <span className="font-medium">
+                        {exercise.name}
+                        {exercise.equipment && (
+                          <span className="ml-2 text-muted-foreground font-normal">
+                            {EQUIPMENT_LABELS[exercise.equipment]}
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {exercise.sessionCount}{" "}
+                        {exercise.sessionCount === 1 ? "session" : "sessions"}
+                        {exercise.lastDate &&
+                          ` · last ${format(
+                            new Date(`${exercise.lastDate}T00:00:00`),
+                            "do MMM yyyy"
+                          )}`}
+                      </span>
+                    </Link>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { getTrainingLogSets } from "@/data/workouts";
+import { toCsvRow } from "@/lib/csv";
+import { SET_TYPE_LABELS } from "@/lib/sets";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format")
+  .optional();
+
+const ExportRangeSchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+});
+
+const CSV_HEADER = [
+  "Date",
+  "Workout Name",
+  "Exercise",
+  "Set Number",
+  "Set Type",
+  "Weight",
+  "Unit",
+  "Reps",
+  "RPE",
+  "RIR",
+  "Distance (m)",
+  "Duration (s)",
+  "Notes",
+];
+
+// Rows are encoded in batches so large logs are not built as one string
+const ROWS_PER_CHUNK = 500;
+
+// Download the current user's training log as CSV, one row per set
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const range = ExportRangeSchema.safeParse({
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+  });
+
+  if (!range.success) {
+    return new Response("Invalid date range", { status: 400 });
+  }
+
+  const rows = await getTrainingLogSets(range.data);
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(toCsvRow(CSV_HEADER)));
+    },
+    pull(controller) {
+      const chunk = rows
+        .slice(index, index + ROWS_PER_CHUNK)
+        .map((row) =>
+          toCsvRow([
+            row.date,
+            row.workoutName,
+            row.exerciseName,
+            row.setNumber,
+            SET_TYPE_LABELS[row.setType],
+            row.weight,
+            row.weightUnit,
+            row.reps,
+            row.rpe,
+            row.rir,
+            row.distance,
+            row.durationSeconds,
+            row.notes,
+          ])
+        )
+        .join("");
+      index += ROWS_PER_CHUNK;
+
+      if (chunk) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      if (index >= rows.length) {
+        controller.close();
+      }
+    },
+  });
+
+  const suffix = [range.data.from, range.data.to].filter(Boolean).join("_to_");
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="training-log${suffix ? `-${suffix}` : ""}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { format } from "date-fns";
+import { getBackup } from "@/data/backups";
+
+// Download a full JSON backup of the current user's data
+export async function GET() {
+  const backup = await getBackup();
+
+  return new Response(JSON.stringify(backup), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="lifting-diary-backup-${format(new Date(), "yyyy-MM-dd")}.json"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
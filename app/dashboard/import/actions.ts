@@ -0,0 +1,121 @@
+"use server";
+
+import { z } from "zod";
+import { getAllExercises } from "@/data/exercises";
+import { getExistingWorkoutKeys, importWorkouts } from "@/data/imports";
+import { matchExerciseName } from "@/lib/exercise-matching";
+import { parseWorkoutImport, workoutDuplicateKey } from "@/lib/import";
+import { WEIGHT_UNITS } from "@/lib/units";
+import { revalidatePath } from "next/cache";
+
+const ImportFileSchema = z.object({
+  csv: z.string().min(1, "Choose a file to import"),
+  weightUnit: z.enum(WEIGHT_UNITS),
+});
+
+function parseFile(input: z.infer<typeof ImportFileSchema>) {
+  try {
+    return { parsed: parseWorkoutImport(input.csv, input.weightUnit) };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : "Could not read the file",
+    };
+  }
+}
+
+// Dry run: parse the file and report what would be imported without writing
+export async function previewImportAction(
+  input: z.infer<typeof ImportFileSchema>
+) {
+  const validated = ImportFileSchema.parse(input);
+
+  const { parsed, error } = parseFile(validated);
+  if (!parsed) {
+    return { success: false as const, error };
+  }
+
+  const [library, existingKeys] = await Promise.all([
+    getAllExercises(),
+    getExistingWorkoutKeys(parsed.workouts.map((workout) => workout.date)),
+  ]);
+
+  // Every distinct exercise name with the library exercise it matched
+  const names = new Map<string, number>();
+  for (const workout of parsed.workouts) {
+    for (const exercise of workout.exercises) {
+      names.set(
+        exercise.name,
+        (names.get(exercise.name) ?? 0) + exercise.sets.length
+      );
+    }
+  }
+
+  const workouts = parsed.workouts.map((workout) => ({
+    date: workout.date,
+    name: workout.name,
+    exerciseCount: workout.exercises.length,
+    setCount: workout.exercises.reduce((sum, e) => sum + e.sets.length, 0),
+    duplicate: existingKeys.has(workoutDuplicateKey(workout)),
+  }));
+
+  return {
+    success: true as const,
+    format: parsed.format,
+    skippedRows: parsed.skippedRows,
+    workouts,
+    exerciseNames: Array.from(names, ([name, setCount]) => ({
+      name,
+      setCount,
+      exerciseId: matchExerciseName(name, library)?.id ?? null,
+    })).sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+const ImportWorkoutsSchema = ImportFileSchema.extend({
+  // Imported exercise name to library exercise id; null skips the exercise
+  exerciseMapping: z.record(z.string(), z.number().nullable()),
+  skipDuplicates: z.boolean().default(true),
+});
+
+type ImportWorkoutsInput = z.input<typeof ImportWorkoutsSchema>;
+
+export async function importWorkoutsAction(input: ImportWorkoutsInput) {
+  const validated = ImportWorkoutsSchema.parse(input);
+
+  const { parsed, error } = parseFile(validated);
+  if (!parsed) {
+    return { success: false as const, error };
+  }
+
+  const [library, existingKeys] = await Promise.all([
+    getAllExercises(),
+    validated.skipDuplicates
+      ? getExistingWorkoutKeys(parsed.workouts.map((workout) => workout.date))
+      : new Set<string>(),
+  ]);
+  const libraryIds = new Set(library.map((exercise) => exercise.id));
+
+  const workouts = parsed.workouts
+    .filter((workout) => !existingKeys.has(workoutDuplicateKey(workout)))
+    .map((workout) => ({
+      ...workout,
+      exercises: workout.exercises.flatMap((exercise) => {
+        const exerciseId = validated.exerciseMapping[exercise.name];
+        return exerciseId != null && libraryIds.has(exerciseId)
+          ? [{ exerciseId, sets: exercise.sets }]
+          : [];
+      }),
+    }))
+    .filter((workout) => workout.exercises.length > 0);
+
+  const { workoutCount, setCount } = await importWorkouts(workouts);
+
+  revalidatePath("/dashboard", "layout");
+
+  return {
+    success: true as const,
+    workoutCount,
+    setCount,
+    skippedWorkouts: parsed.workouts.length - workoutCount,
+  };
+}
@@ -0,0 +1,319 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { previewImportAction, importWorkoutsAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { IMPORT_FORMAT_LABELS } from "@/lib/import";
+import { WEIGHT_UNITS, WEIGHT_UNIT_LABELS, type WeightUnit } from "@/lib/units";
+
+const SKIP_EXERCISE = "skip";
+
+type Preview = Extract<
+  Awaited<ReturnType<typeof previewImportAction>>,
+  { success: true }
+>;
+
+type ImportResult = Extract<
+  Awaited<ReturnType<typeof importWorkoutsAction>>,
+  { success: true }
+>;
+
+interface ImportWizardProps {
+  exercises: { id: number; name: string }[];
+  weightUnit: WeightUnit;
+}
+
+export function ImportWizard({ exercises, weightUnit }: ImportWizardProps) {
+  const [csv, setCsv] = useState("");
+  const [fileUnit, setFileUnit] = useState<WeightUnit>(weightUnit);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    setError(null);
+    setCsv(file ? await file.text() : "");
+  };
+
+  async function handlePreview(e: React.FormEvent) {
+    e.preventDefault();
+    if (!csv) return;
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const response = await previewImportAction({ csv, weightUnit: fileUnit });
+      if (!response.success) {
+        setError(response.error ?? "Could not read the file");
+        return;
+      }
+
+      setPreview(response);
+      setMapping(
+        Object.fromEntries(
+          response.exerciseNames.map((exercise) => [
+            exercise.name,
+            exercise.exerciseId ? String(exercise.exerciseId) : SKIP_EXERCISE,
+          ])
+        )
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleImport() {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const response = await importWorkoutsAction({
+        csv,
+        weightUnit: fileUnit,
+        skipDuplicates,
+        exerciseMapping: Object.fromEntries(
+          Object.entries(mapping).map(([name, value]) => [
+            name,
+            value === SKIP_EXERCISE ? null : Number(value),
+          ])
+        ),
+      });
+      if (!response.success) {
+        setError(response.error ?? "Import failed");
+        return;
+      }
+
+      setResult(response);
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  if (result) {
+    return (
+      <Card className="max-w-lg mx-auto">
+        <CardHeader>
+          <CardTitle>Import Complete</CardTitle>
+          <CardDescription>
+            Imported {result.workoutCount} workouts with {result.setCount} sets
+            {result.skippedWorkouts > 0 &&
+              `, skipping ${result.skippedWorkouts} workouts`}
+            .
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild className="w-full">
+            <Link href="/dashboard">Back to Log</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const unmatched = preview?.exerciseNames.filter(
+    (exercise) => mapping[exercise.name] === SKIP_EXERCISE
+  );
+  const duplicateCount =
+    preview?.workouts.filter((workout) => workout.duplicate).length ?? 0;
+
+  return (
+    <div className="flex flex-col gap-6 max-w-2xl mx-auto">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Import History</h1>
+        <Button asChild variant="outline">
+          <Link href="/dashboard/settings">Back to Settings</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upload</CardTitle>
+          <CardDescription>
+            Choose a CSV exported from Strong or Hevy. Nothing is saved until
+            you confirm the preview.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handlePreview} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="file">CSV File</Label>
+              <Input
+                id="file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Weights in File</Label>
+              <Select
+                value={fileUnit}
+                onValueChange={(value) => setFileUnit(value as WeightUnit)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEIGHT_UNITS.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {WEIGHT_UNIT_LABELS[unit]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Used when the file does not say which unit it is in.
+              </p>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button
+              type="submit"
+              variant={preview ? "outline" : "default"}
+              className="w-full"
+              disabled={!csv || isWorking}
+            >
+              {isWorking && !preview ? "Reading..." : "Preview Import"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Exercises</CardTitle>
+              <CardDescription>
+                {unmatched && unmatched.length > 0
+                  ? `${unmatched.length} exercise names need a match. Unmatched exercises are skipped.`
+                  : "Every exercise name has a match."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {preview.exerciseNames.map((exercise) => (
+                <div
+                  key={exercise.name}
+                  className="grid grid-cols-2 items-center gap-2"
+                >
+                  <div>
+                    <p className="text-sm font-medium">{exercise.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {exercise.setCount} sets
+                    </p>
+                  </div>
+                  <Select
+                    value={mapping[exercise.name]}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [exercise.name]: value })
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_EXERCISE}>
+                        Skip this exercise
+                      </SelectItem>
+                      {exercises.map((libraryExercise) => (
+                        <SelectItem
+                          key={libraryExercise.id}
+                          value={String(libraryExercise.id)}
+                        >
+                          {libraryExercise.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Workouts</CardTitle>
+              <CardDescription>
+                {IMPORT_FORMAT_LABELS[preview.format]} export with{" "}
+                {preview.workouts.length} workouts
+                {duplicateCount > 0 &&
+                  `, ${duplicateCount} already in your log`}
+                {preview.skippedRows > 0 &&
+                  `. ${preview.skippedRows} rows without weight or reps will be skipped`}
+                .
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ScrollArea className="h-72">
+                <div className="space-y-1 pr-4">
+                  {preview.workouts.map((workout, index) => (
+                    <div
+                      key={index}
+                      className="flex items-center justify-between text-sm py-1"
+                    >
+                      <span>
+                        {format(new Date(workout.date), "do MMM yyyy")} ·{" "}
+                        {workout.name || "Untitled"}
+                      </span>
+                      <span className="flex items-center gap-2 text-muted-foreground">
+                        {workout.exerciseCount} exercises · {workout.setCount}{" "}
+                        sets
+                        {workout.duplicate && (
+                          <Badge variant="secondary">Duplicate</Badge>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="skipDuplicates"
+                  checked={skipDuplicates}
+                  onCheckedChange={(checked) =>
+                    setSkipDuplicates(checked === true)
+                  }
+                />
+                <Label htmlFor="skipDuplicates" className="font-normal">
+                  Skip workouts already in my log (same date and name)
+                </Label>
+              </div>
+              <Button
+                className="w-full"
+                onClick={handleImport}
+                disabled={isWorking}
+              >
+                {isWorking ? "Importing..." : "Import Workouts"}
+              </Button>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { getAllExercises } from "@/data/exercises";
+import { getUserSettings } from "@/data/users";
+import { ImportWizard } from "./import-wizard";
+
+export default async function ImportPage() {
+  const [exercises, { weightUnit }] = await Promise.all([
+    getAllExercises(),
+    getUserSettings(),
+  ]);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <ImportWizard exercises={exercises} weightUnit={weightUnit} />
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { Suspense } from "react";
 import { format } from "date-fns";
 import { getWorkoutsByDate } from "@/data/workouts";
+import { getPlannedSessionsByDate } from "@/data/programs";
+import { getPersonalRecords } from "@/data/analytics";
+import { getUserSettings } from "@/data/users";
 import { WorkoutLog } from "./_components/workout-log";
 
 interface DashboardPageProps {
@@ -14,11 +17,30 @@ export default async function DashboardPage({
   const selectedDate = date ? new Date(date) : new Date();
   const dateString = format(selectedDate, "yyyy-MM-dd");
 
-  const workouts = await getWorkoutsByDate(dateString);
+  const [workouts, plannedSessions, settings] = await Promise.all([
+    getWorkoutsByDate(dateString),
+    getPlannedSessionsByDate(dateString),
+    getUserSettings(),
+  ]);
+
+  const personalRecords = await getPersonalRecords([
+    ...new Set(
+      workouts.flatMap((workout) =>
+        workout.exercises.map((exercise) => exercise.exerciseId)
+      )
+    ),
+  ]);
 
   return (
     <Suspense>
-      <WorkoutLog workouts={workouts} selectedDate={selectedDate} />
+      <WorkoutLog
+        workouts={workouts}
+        plannedSessions={plannedSessions}
+        personalRecords={personalRecords}
+        weightUnit={settings.weightUnit}
+        weekStartsOn={settings.weekStartsOn}
+        selectedDate={selectedDate}
+      />
     </Suspense>
   );
 }
@@ -0,0 +1,41 @@
+"use server";
+
+import { z } from "zod";
+import { deleteProgram, startPlannedSession } from "@/data/programs";
+import { revalidatePath } from "next/cache";
+
+const DeleteProgramSchema = z.object({
+  programId: z.number(),
+});
+
+type DeleteProgramInput = z.infer<typeof DeleteProgramSchema>;
+
+export async function deleteProgramAction(input: DeleteProgramInput) {
+  const validated = DeleteProgramSchema.parse(input);
+
+  await deleteProgram(validated.programId);
+
+  revalidatePath("/dashboard/programs");
+  revalidatePath("/dashboard");
+
+  return { success: true };
+}
+
+// Start a planned session as a workout
+const StartSessionSchema = z.object({
+  sessionId: z.number(),
+  programId: z.number(),
+});
+
+type StartSessionInput = z.infer<typeof StartSessionSchema>;
+
+export async function startSessionAction(input: StartSessionInput) {
+  const validated = StartSessionSchema.parse(input);
+
+  const workout = await startPlannedSession(validated.sessionId);
+
+  revalidatePath(`/dashboard/programs/${validated.programId}`);
+  revalidatePath("/dashboard");
+
+  return { workoutId: workout.id };
+}
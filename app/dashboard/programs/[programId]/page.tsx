@@ -0,0 +1,24 @@
+import { notFound } from "next/navigation";
+import { getProgramWithSessions } from "@/data/programs";
+import { ProgramSchedule } from "./program-schedule";
+
+type Params = Promise<{ programId: string }>;
+
+export default async function ProgramPage({ params }: { params: Params }) {
+  const { programId } = await params;
+  const programData = await getProgramWithSessions(Number(programId));
+
+  if (!programData) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <ProgramSchedule
+        program={programData.program}
+        weeks={programData.weeks}
+        sessions={programData.sessions}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { CheckCircle2, Play, Trash2 } from "lucide-react";
+import { deleteProgramAction, startSessionAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { ProgramWithSessions } from "@/data/programs";
+import { WEIGHT_UNIT_LABELS } from "@/lib/units";
+
+type ProgramScheduleProps = ProgramWithSessions;
+
+export function ProgramSchedule({
+  program,
+  weeks,
+  sessions,
+}: ProgramScheduleProps) {
+  const router = useRouter();
+  const [startingId, setStartingId] = useState<number | null>(null);
+
+  const handleStart = async (sessionId: number) => {
+    setStartingId(sessionId);
+    try {
+      const result = await startSessionAction({
+        sessionId,
+        programId: program.id,
+      });
+      router.push(`/dashboard/workout/${result.workoutId}`);
+    } catch {
+      setStartingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete program ${program.name}? Logged workouts are kept.`)) {
+      return;
+    }
+
+    await deleteProgramAction({ programId: program.id });
+    router.push("/dashboard/programs");
+  };
+
+  const formatRule = (value: string) =>
+    program.progressionType === "percentage"
+      ? `${Number(value)}% of target`
+      : `${Number(value) >= 0 ? "+" : ""}${Number(value)} ${WEIGHT_UNIT_LABELS[program.loadUnit]} on target`;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{program.name}</h1>
+          <p className="text-muted-foreground">
+            {program.weeks} weeks from{" "}
+            {format(new Date(`${program.startDate}T00:00:00`), "do MMM yyyy")}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button asChild variant="outline">
+            <Link href="/dashboard/programs">All Programs</Link>
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleDelete}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {weeks.map((week) => (
+        <Card key={week.id}>
+          <CardHeader>
+            <CardTitle>Week {week.weekNumber}</CardTitle>
+            <CardDescription>{formatRule(week.progressionValue)}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sessions
+              .filter((session) => session.weekNumber === week.weekNumber)
+              .map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between py-2 border-t"
+                >
+                  <div>
+                    <p className="font-medium">{session.templateName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(
+                        new Date(`${session.scheduledDate}T00:00:00`),
+                        "EEE do MMM yyyy"
+                      )}
+                    </p>
+                  </div>
+                  {session.workoutId ? (
+                    <Button asChild variant="outline" size="sm">
+                      <Link href={`/dashboard/workout/${session.workoutId}`}>
+                        <CheckCircle2 className="h-4 w-4 mr-2" />
+                        Logged
+                      </Link>
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => handleStart(session.id)}
+                      disabled={startingId !== null}
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      {startingId === session.id ? "Starting..." : "Start"}
+                    </Button>
+                  )}
+                </div>
+              ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use server";
+
+import { z } from "zod";
+import { createProgram } from "@/data/programs";
+import { PROGRESSION_TYPES } from "@/lib/programs";
+import { revalidatePath } from "next/cache";
+
+const CreateProgramSchema = z
+  .object({
+    name: z.string().min(1, "Program name is required").max(255),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
+    weeks: z.number().int().min(1).max(52),
+    progressionType: z.enum(PROGRESSION_TYPES),
+    progressionValues: z.array(
+      z
+        .string()
+        .regex(/^-?\d+(\.\d{1,2})?$/, "Progression must be a valid decimal number")
+    ),
+    notes: z.string().max(1000).optional(),
+    slots: z
+      .array(
+        z.object({
+          templateId: z.number(),
+          dayOffset: z.number().int().min(0).max(6),
+        })
+      )
+      .min(1, "Schedule at least one session per week"),
+  })
+  .refine((data) => data.progressionValues.length === data.weeks, {
+    message: "Provide a progression value for every week",
+    path: ["progressionValues"],
+  });
+
+type CreateProgramInput = z.infer<typeof CreateProgramSchema>;
+
+export async function createProgramAction(input: CreateProgramInput) {
+  const validated = CreateProgramSchema.parse(input);
+
+  const program = await createProgram(validated);
+
+  revalidatePath("/dashboard/programs");
+  revalidatePath("/dashboard");
+
+  return { programId: program.id };
+}
@@ -0,0 +1,20 @@
+import { getTemplates } from "@/data/templates";
+import { getUserSettings } from "@/data/users";
+import { ProgramForm } from "./program-form";
+
+export default async function NewProgramPage() {
+  const [templates, { weightUnit, weekStartsOn }] = await Promise.all([
+    getTemplates(),
+    getUserSettings(),
+  ]);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <ProgramForm
+        templates={templates}
+        weightUnit={weightUnit}
+        weekStartsOn={weekStartsOn}
+      />
+    </div>
+  );
+}
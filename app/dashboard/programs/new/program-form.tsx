@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { addDays, format } from "date-fns";
+import { CalendarIcon, Plus, Trash2 } from "lucide-react";
+import { createProgramAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { TemplateSummary } from "@/data/templates";
+import type { ProgressionType } from "@/lib/programs";
+import { WEIGHT_UNIT_LABELS, type WeightUnit } from "@/lib/units";
+import type { WeekStartDay } from "@/lib/settings";
+
+interface ProgramFormProps {
+  templates: TemplateSummary[];
+  weightUnit: WeightUnit;
+  weekStartsOn: WeekStartDay;
+}
+
+type Slot = { templateId: string; dayOffset: string };
+
+const DEFAULT_PROGRESSION: Record<ProgressionType, string> = {
+  percentage: "100",
+  load: "0",
+};
+
+export function ProgramForm({
+  templates,
+  weightUnit,
+  weekStartsOn,
+}: ProgramFormProps) {
+  const router = useRouter();
+
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState<Date>(new Date());
+  const [weeks, setWeeks] = useState("8");
+  const [progressionType, setProgressionType] =
+    useState<ProgressionType>("percentage");
+  const [progressionValues, setProgressionValues] = useState<string[]>([]);
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const weekCount = Math.min(Math.max(Number(weeks) || 0, 0), 52);
+  const weekValues = Array.from(
+    { length: weekCount },
+    (_, i) => progressionValues[i] ?? DEFAULT_PROGRESSION[progressionType]
+  );
+
+  const updateWeekValue = (index: number, value: string) => {
+    const next = [...weekValues];
+    next[index] = value;
+    setProgressionValues(next);
+  };
+
+  const updateSlot = (index: number, slot: Partial<Slot>) => {
+    setSlots(slots.map((s, i) => (i === index ? { ...s, ...slot } : s)));
+  };
+
+  const handleProgressionTypeChange = (value: string) => {
+    setProgressionType(value as ProgressionType);
+    setProgressionValues([]);
+  };
+
+  const isValid =
+    name.trim() !== "" &&
+    weekCount > 0 &&
+    slots.length > 0 &&
+    slots.every((slot) => slot.templateId !== "");
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!isValid) return;
+    setIsSubmitting(true);
+
+    try {
+      const result = await createProgramAction({
+        name: name.trim(),
+        startDate: format(startDate, "yyyy-MM-dd"),
+        weeks: weekCount,
+        progressionType,
+        progressionValues: weekValues,
+        slots: slots.map((slot) => ({
+          templateId: Number(slot.templateId),
+          dayOffset: Number(slot.dayOffset),
+        })),
+      });
+
+      router.push(`/dashboard/programs/${result.programId}`);
+    } catch {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (templates.length === 0) {
+    return (
+      <Card className="max-w-lg mx-auto">
+        <CardHeader>
+          <CardTitle>Create Program</CardTitle>
+          <CardDescription>
+            Programs schedule your templates, so create a template first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild className="w-full">
+            <Link href="/dashboard/templates">Go to Templates</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle>Create Program</CardTitle>
+        <CardDescription>
+          Schedule template sessions across several weeks
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="name">Program Name</Label>
+            <Input
+              id="name"
+              placeholder="e.g., 5/3/1 Cycle"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={255}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Start Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start font-normal"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(startDate, "do MMM yyyy")}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={startDate}
+                    onSelect={(newDate) => newDate && setStartDate(newDate)}
+                    weekStartsOn={weekStartsOn}
+                    autoFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="weeks">Weeks</Label>
+              <Input
+                id="weeks"
+                type="number"
+                min={1}
+                max={52}
+                value={weeks}
+                onChange={(e) => setWeeks(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Weekly Sessions</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setSlots([...slots, { templateId: "", dayOffset: "0" }])
+                }
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Session
+              </Button>
+            </div>
+            {slots.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Add the sessions you train each week.
+              </p>
+            )}
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={slot.templateId}
+                  onValueChange={(templateId) => updateSlot(index, { templateId })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Choose template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={String(template.id)}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={slot.dayOffset}
+                  onValueChange={(dayOffset) => updateSlot(index, { dayOffset })}
+                >
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 7 }, (_, offset) => (
+                      <SelectItem key={offset} value={String(offset)}>
+                        Day {offset + 1} ({format(addDays(startDate, offset), "EEE")})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSlots(slots.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Progression</Label>
+            <Select
+              value={progressionType}
+              onValueChange={handleProgressionTypeChange}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percentage">
+                  Percentage of template target weight
+                </SelectItem>
+                <SelectItem value="load">
+                  Load added to template target weight
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-4 gap-2">
+              {weekValues.map((value, index) => (
+                <div key={index} className="space-y-1">
+                  <Label
+                    htmlFor={`week-${index}`}
+                    className="text-xs text-muted-foreground"
+                  >
+                    Week {index + 1} (
+                    {progressionType === "percentage"
+                      ? "%"
+                      : `+${WEIGHT_UNIT_LABELS[weightUnit]}`}
+                    )
+                  </Label>
+                  <Input
+                    id={`week-${index}`}
+                    type="number"
+                    step="0.5"
+                    value={value}
+                    onChange={(e) => updateWeekValue(index, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isSubmitting || !isValid}
+          >
+            {isSubmitting ? "Creating..." : "Create Program"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+import { getPrograms } from "@/data/programs";
+import { ProgramList } from "./program-list";
+
+export default async function ProgramsPage() {
+  const programs = await getPrograms();
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <ProgramList programs={programs} />
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { CalendarRange, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { ProgramSummary } from "@/data/programs";
+
+interface ProgramListProps {
+  programs: ProgramSummary[];
+}
+
+export function ProgramList({ programs }: ProgramListProps) {
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Training Programs</h1>
+        <div className="flex items-center gap-2">
+          <Button asChild variant="outline">
+            <Link href="/dashboard">Back to Log</Link>
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard/programs/new">New Program</Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4">
+        {programs.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <CalendarRange className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground text-center">
+                No programs yet
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          programs.map((program) => (
+            <Card key={program.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <CardTitle>{program.name}</CardTitle>
+                    <CardDescription>
+                      {program.weeks} weeks from{" "}
+                      {format(
+                        new Date(`${program.startDate}T00:00:00`),
+                        "do MMM yyyy"
+                      )}{" "}
+                      · {program.completedCount}/{program.sessionCount} sessions
+                      logged
+                    </CardDescription>
+                  </div>
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/dashboard/programs/${program.id}`}>
+                      <Eye className="h-4 w-4 mr-2" />
+                      View
+                    </Link>
+                  </Button>
+                </div>
+              </CardHeader>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use server";
+
+import { z } from "zod";
+import { updateUserSettings } from "@/data/users";
+import { restoreBackup } from "@/data/backups";
+import { WEIGHT_UNITS } from "@/lib/units";
+import { E1RM_FORMULAS } from "@/lib/strength";
+import { WEEK_START_DAYS } from "@/lib/settings";
+import { RESTORE_MODES, parseBackup, type Backup } from "@/lib/backup";
+import { revalidatePath } from "next/cache";
+
+const UpdateSettingsSchema = z.object({
+  weightUnit: z.enum(WEIGHT_UNITS),
+  defaultRestSeconds: z.number().int().min(0).max(3600),
+  weekStartsOn: z.union(WEEK_START_DAYS.map((day) => z.literal(day))),
+  e1rmFormula: z.enum(E1RM_FORMULAS),
+  defaultSetCount: z.number().int().min(0).max(20),
+});
+
+type UpdateSettingsInput = z.infer<typeof UpdateSettingsSchema>;
+
+export async function updateSettingsAction(input: UpdateSettingsInput) {
+  const validated = UpdateSettingsSchema.parse(input);
+
+  await updateUserSettings(validated);
+
+  // Units, formulas and calendars are rendered throughout the dashboard
+  revalidatePath("/dashboard", "layout");
+
+  return { success: true };
+}
+
+// Restore a JSON backup, merging into or replacing the current log
+const RestoreBackupSchema = z.object({
+  json: z.string().min(1, "Choose a backup file"),
+  mode: z.enum(RESTORE_MODES),
+});
+
+type RestoreBackupInput = z.infer<typeof RestoreBackupSchema>;
+
+export async function restoreBackupAction(input: RestoreBackupInput) {
+  const validated = RestoreBackupSchema.parse(input);
+
+  let backup: Backup;
+  try {
+    backup = parseBackup(validated.json);
+  } catch (error) {
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : "Could not read the file",
+    };
+  }
+
+  const result = await restoreBackup(backup, validated.mode);
+
+  revalidatePath("/dashboard", "layout");
+
+  return { success: true as const, ...result };
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { restoreBackupAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { RestoreMode } from "@/lib/backup";
+
+export function BackupCard() {
+  const [json, setJson] = useState("");
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setMessage(null);
+    setJson(file ? await file.text() : "");
+  };
+
+  async function handleRestore(e: React.FormEvent) {
+    e.preventDefault();
+    if (!json) return;
+    if (
+      mode === "replace" &&
+      !confirm("Replace your whole log with this backup? This cannot be undone.")
+    ) {
+      return;
+    }
+    setIsRestoring(true);
+    setMessage(null);
+
+    try {
+      const result = await restoreBackupAction({ json, mode });
+      if (!result.success) {
+        setMessage(result.error);
+        return;
+      }
+
+      setMessage(
+        [
+          `Restored ${result.workoutCount} workouts, ${result.templateCount} templates and ${result.programCount} programs.`,
+          result.skippedWorkouts > 0 &&
+            `${result.skippedWorkouts} workouts were already in your log.`,
+          result.unmatchedExercises.length > 0 &&
+            `Skipped unknown exercises: ${result.unmatchedExercises.join(", ")}.`,
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+    } catch {
+      setMessage("Restore failed. Your log was left unchanged.");
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  return (
+    <Card className="max-w-lg mx-auto">
+      <CardHeader>
+        <CardTitle>Backup</CardTitle>
+        <CardDescription>
+          Save everything as a JSON file, or restore from an earlier backup
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button asChild variant="outline" className="w-full">
+          <a href="/dashboard/export/json" download>
+            <Download className="h-4 w-4 mr-2" />
+            Download Backup
+          </a>
+        </Button>
+
+        <form onSubmit={handleRestore} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="backupFile">Backup File</Label>
+            <Input
+              id="backupFile"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Restore Mode</Label>
+            <Select
+              value={mode}
+              onValueChange={(value) => setMode(value as RestoreMode)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">
+                  Merge into my log, skipping workouts I already have
+                </SelectItem>
+                <SelectItem value="replace">
+                  Replace my log and settings with the backup
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {message && (
+            <p className="text-sm text-muted-foreground">{message}</p>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!json || isRestoring}
+          >
+            {isRestoring ? "Restoring..." : "Restore Backup"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+import Link from "next/link";
+import { getUserSettings } from "@/data/users";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { SettingsForm } from "./settings-form";
+import { ExportCard } from "./export-card";
+import { BackupCard } from "./backup-card";
+
+export default async function SettingsPage() {
+  const settings = await getUserSettings();
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <SettingsForm settings={settings} />
+      <ExportCard />
+      <BackupCard />
+      <Card className="max-w-lg mx-auto">
+        <CardHeader>
+          <CardTitle>Import</CardTitle>
+          <CardDescription>
+            Bring your history over from Strong or Hevy
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline" className="w-full">
+            <Link href="/dashboard/import">Import from CSV</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { updateSettingsAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  WEEK_START_DAYS,
+  WEEK_START_DAY_LABELS,
+  type UserSettings,
+  type WeekStartDay,
+} from "@/lib/settings";
+import { WEIGHT_UNITS, WEIGHT_UNIT_LABELS, type WeightUnit } from "@/lib/units";
+import {
+  E1RM_FORMULAS,
+  E1RM_FORMULA_LABELS,
+  type E1rmFormula,
+} from "@/lib/strength";
+
+export function SettingsForm({ settings }: { settings: UserSettings }) {
+  const [weightUnit, setWeightUnit] = useState(settings.weightUnit);
+  const [defaultRestSeconds, setDefaultRestSeconds] = useState(
+    String(settings.defaultRestSeconds)
+  );
+  const [weekStartsOn, setWeekStartsOn] = useState(settings.weekStartsOn);
+  const [e1rmFormula, setE1rmFormula] = useState(settings.e1rmFormula);
+  const [defaultSetCount, setDefaultSetCount] = useState(
+    String(settings.defaultSetCount)
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const restSeconds = Number(defaultRestSeconds);
+  const setCount = Number(defaultSetCount);
+  const isValid =
+    defaultRestSeconds !== "" &&
+    Number.isInteger(restSeconds) &&
+    restSeconds >= 0 &&
+    restSeconds <= 3600 &&
+    defaultSetCount !== "" &&
+    Number.isInteger(setCount) &&
+    setCount >= 0 &&
+    setCount <= 20;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!isValid) return;
+    setIsSubmitting(true);
+    setSaved(false);
+
+    try {
+      await updateSettingsAction({
+        weightUnit,
+        defaultRestSeconds: restSeconds,
+        weekStartsOn,
+        e1rmFormula,
+        defaultSetCount: setCount,
+      });
+      setSaved(true);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Card className="max-w-lg mx-auto">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Settings</CardTitle>
+            <CardDescription>Preferences for logging and analysis</CardDescription>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/dashboard">Back to Log</Link>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Weight Unit</Label>
+            <Select
+              value={weightUnit}
+              onValueChange={(value) => setWeightUnit(value as WeightUnit)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEIGHT_UNITS.map((unit) => (
+                  <SelectItem key={unit} value={unit}>
+                    {WEIGHT_UNIT_LABELS[unit]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="defaultRestSeconds">Default Rest (seconds)</Label>
+              <Input
+                id="defaultRestSeconds"
+                type="number"
+                min={0}
+                max={3600}
+                value={defaultRestSeconds}
+                onChange={(e) => setDefaultRestSeconds(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="defaultSetCount">Default Sets</Label>
+              <Input
+                id="defaultSetCount"
+                type="number"
+                min={0}
+                max={20}
+                value={defaultSetCount}
+                onChange={(e) => setDefaultSetCount(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Week Starts On</Label>
+            <Select
+              value={String(weekStartsOn)}
+              onValueChange={(value) =>
+                setWeekStartsOn(Number(value) as WeekStartDay)
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEK_START_DAYS.map((day) => (
+                  <SelectItem key={day} value={String(day)}>
+                    {WEEK_START_DAY_LABELS[day]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Estimated 1RM Formula</Label>
+            <Select
+              value={e1rmFormula}
+              onValueChange={(value) => setE1rmFormula(value as E1rmFormula)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {E1RM_FORMULAS.map((formula) => (
+                  <SelectItem key={formula} value={formula}>
+                    {E1RM_FORMULA_LABELS[formula]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isSubmitting || !isValid}
+          >
+            {isSubmitting ? "Saving..." : "Save Settings"}
+          </Button>
+          {saved && (
+            <p className="text-sm text-muted-foreground text-center">
+              Settings saved.
+            </p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
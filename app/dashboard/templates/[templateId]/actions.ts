@@ -0,0 +1,123 @@
+"use server";
+
+import { z } from "zod";
+import {
+  updateTemplate,
+  deleteTemplate,
+  addExerciseToTemplate,
+  updateTemplateExercise,
+  removeExerciseFromTemplate,
+} from "@/data/templates";
+import { revalidatePath } from "next/cache";
+
+const weightSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,2})?$/, "Weight must be a valid decimal number");
+
+const UpdateTemplateSchema = z.object({
+  templateId: z.number(),
+  name: z.string().min(1, "Template name is required").max(255),
+  notes: z.string().max(1000).nullable(),
+});
+
+type UpdateTemplateInput = z.infer<typeof UpdateTemplateSchema>;
+
+export async function updateTemplateAction(input: UpdateTemplateInput) {
+  const validated = UpdateTemplateSchema.parse(input);
+
+  await updateTemplate(validated.templateId, {
+    name: validated.name,
+    notes: validated.notes,
+  });
+
+  revalidatePath("/dashboard/templates");
+
+  return { success: true };
+}
+
+// Delete template
+const DeleteTemplateSchema = z.object({
+  templateId: z.number(),
+});
+
+type DeleteTemplateInput = z.infer<typeof DeleteTemplateSchema>;
+
+export async function deleteTemplateAction(input: DeleteTemplateInput) {
+  const validated = DeleteTemplateSchema.parse(input);
+
+  await deleteTemplate(validated.templateId);
+
+  revalidatePath("/dashboard/templates");
+
+  return { success: true };
+}
+
+// Add exercise to template
+const AddTemplateExerciseSchema = z.object({
+  templateId: z.number(),
+  exerciseId: z.number(),
+  targetSets: z.number().int().min(1).max(20).optional(),
+  targetReps: z.number().int().min(0).nullable().default(null),
+  targetWeight: weightSchema.nullable().default(null),
+});
+
+type AddTemplateExerciseInput = z.input<typeof AddTemplateExerciseSchema>;
+
+export async function addTemplateExerciseAction(
+  input: AddTemplateExerciseInput
+) {
+  const validated = AddTemplateExerciseSchema.parse(input);
+
+  const templateExercise = await addExerciseToTemplate(validated);
+
+  revalidatePath(`/dashboard/templates/${validated.templateId}`);
+
+  return { templateExerciseId: templateExercise.id };
+}
+
+// Update template exercise targets
+const UpdateTemplateExerciseSchema = z.object({
+  templateExerciseId: z.number(),
+  targetSets: z.number().int().min(1).max(20).optional(),
+  targetReps: z.number().int().min(0).nullable().optional(),
+  targetWeight: weightSchema.nullable().optional(),
+  templateId: z.number(),
+});
+
+type UpdateTemplateExerciseInput = z.infer<typeof UpdateTemplateExerciseSchema>;
+
+export async function updateTemplateExerciseAction(
+  input: UpdateTemplateExerciseInput
+) {
+  const validated = UpdateTemplateExerciseSchema.parse(input);
+
+  await updateTemplateExercise(validated.templateExerciseId, {
+    targetSets: validated.targetSets,
+    targetReps: validated.targetReps,
+    targetWeight: validated.targetWeight,
+  });
+
+  revalidatePath(`/dashboard/templates/${validated.templateId}`);
+
+  return { success: true };
+}
+
+// Remove exercise from template
+const RemoveTemplateExerciseSchema = z.object({
+  templateExerciseId: z.number(),
+  templateId: z.number(),
+});
+
+type RemoveTemplateExerciseInput = z.infer<typeof RemoveTemplateExerciseSchema>;
+
+export async function removeTemplateExerciseAction(
+  input: RemoveTemplateExerciseInput
+) {
+  const validated = RemoveTemplateExerciseSchema.parse(input);
+
+  await removeExerciseFromTemplate(validated.templateExerciseId);
+
+  revalidatePath(`/dashboard/templates/${validated.templateId}`);
+
+  return { success: true };
+}
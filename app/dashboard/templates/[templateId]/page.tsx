@@ -0,0 +1,33 @@
+import { notFound } from "next/navigation";
+import { getTemplateWithExercises } from "@/data/templates";
+import { getAllExercises } from "@/data/exercises";
+import { getUserSettings } from "@/data/users";
+import { TemplateEditor } from "./template-editor";
+
+type Params = Promise<{ templateId: string }>;
+
+export default async function EditTemplatePage({ params }: { params: Params }) {
+  const { templateId } = await params;
+
+  // Fetch template with exercises and available exercises in parallel
+  const [templateData, availableExercises, { weightUnit }] = await Promise.all([
+    getTemplateWithExercises(Number(templateId)),
+    getAllExercises(),
+    getUserSettings(),
+  ]);
+
+  if (!templateData) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <TemplateEditor
+        template={templateData.template}
+        exercises={templateData.exercises}
+        availableExercises={availableExercises}
+        weightUnit={weightUnit}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Play, Trash2 } from "lucide-react";
+import { updateTemplateAction, deleteTemplateAction } from "./actions";
+import { TemplateExerciseRow } from "./template-exercise-row";
+import { AddTemplateExerciseDialog } from "./add-template-exercise-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { WEIGHT_UNIT_LABELS, type WeightUnit } from "@/lib/units";
+
+interface TemplateEditorProps {
+  template: {
+    id: number;
+    name: string;
+    notes: string | null;
+  };
+  exercises: {
+    id: number;
+    name: string;
+    order: number;
+    targetSets: number;
+    targetReps: number | null;
+    targetWeight: string | null;
+  }[];
+  availableExercises: { id: number; name: string }[];
+  weightUnit: WeightUnit;
+}
+
+export function TemplateEditor({
+  template,
+  exercises,
+  availableExercises,
+  weightUnit,
+}: TemplateEditorProps) {
+  const router = useRouter();
+  const [name, setName] = useState(template.name);
+  const [notes, setNotes] = useState(template.notes ?? "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showAddExercise, setShowAddExercise] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSubmitting(true);
+
+    try {
+      await updateTemplateAction({
+        templateId: template.id,
+        name: name.trim(),
+        notes: notes || null,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete template ${template.name}?`)) return;
+
+    await deleteTemplateAction({ templateId: template.id });
+    router.push("/dashboard/templates");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="max-w-lg mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex-1">
+              <CardTitle>Edit Template</CardTitle>
+              <CardDescription>
+                Exercises and targets are copied into each new workout
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="name">Template Name</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={255}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes (optional)</Label>
+              <Textarea
+                id="notes"
+                placeholder="Cues, rest times, progression notes..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={1000}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={isSubmitting || !name.trim()}
+              >
+                {isSubmitting ? "Saving..." : "Save Changes"}
+              </Button>
+              <Button asChild variant="outline">
+                <Link href={`/dashboard/workout/new?template=${template.id}`}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Start Workout
+                </Link>
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Exercises</CardTitle>
+            <Button onClick={() => setShowAddExercise(true)}>Add Exercise</Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {exercises.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No exercises in this template yet.
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-5 gap-2 text-sm font-medium mb-2">
+                <span className="col-span-2">Exercise</span>
+                <span>Sets</span>
+                <span>Reps</span>
+                <span>Weight ({WEIGHT_UNIT_LABELS[weightUnit]})</span>
+              </div>
+              {exercises.map((exercise) => (
+                <TemplateExerciseRow
+                  key={exercise.id}
+                  templateId={template.id}
+                  exercise={exercise}
+                />
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <AddTemplateExerciseDialog
+        open={showAddExercise}
+        onOpenChange={setShowAddExercise}
+        templateId={template.id}
+        availableExercises={availableExercises}
+      />
+    </div>
+  );
+}
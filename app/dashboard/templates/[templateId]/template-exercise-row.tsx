@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Trash2 } from "lucide-react";
+import {
+  updateTemplateExerciseAction,
+  removeTemplateExerciseAction,
+} from "./actions";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useDebounce } from "@/hooks/use-debounce";
+
+interface TemplateExerciseRowProps {
+  templateId: number;
+  exercise: {
+    id: number;
+    name: string;
+    targetSets: number;
+    targetReps: number | null;
+    targetWeight: string | null;
+  };
+}
+
+export function TemplateExerciseRow({
+  templateId,
+  exercise,
+}: TemplateExerciseRowProps) {
+  const [targetSets, setTargetSets] = useState(exercise.targetSets.toString());
+  const [targetReps, setTargetReps] = useState(
+    exercise.targetReps?.toString() ?? ""
+  );
+  const [targetWeight, setTargetWeight] = useState(exercise.targetWeight ?? "");
+
+  // Debounced auto-save
+  const debouncedSets = useDebounce(targetSets, 500);
+  const debouncedReps = useDebounce(targetReps, 500);
+  const debouncedWeight = useDebounce(targetWeight, 500);
+
+  useEffect(() => {
+    const setCount = Number(debouncedSets);
+    if (!Number.isInteger(setCount) || setCount < 1) return;
+
+    const hasChanges =
+      setCount !== exercise.targetSets ||
+      debouncedReps !== (exercise.targetReps?.toString() ?? "") ||
+      debouncedWeight !== (exercise.targetWeight ?? "");
+
+    if (hasChanges) {
+      updateTemplateExerciseAction({
+        templateExerciseId: exercise.id,
+        targetSets: setCount,
+        targetReps: debouncedReps ? Number(debouncedReps) : null,
+        targetWeight: debouncedWeight || null,
+        templateId,
+      });
+    }
+  }, [
+    debouncedSets,
+    debouncedReps,
+    debouncedWeight,
+    exercise.id,
+    exercise.targetSets,
+    exercise.targetReps,
+    exercise.targetWeight,
+    templateId,
+  ]);
+
+  const handleRemove = async () => {
+    await removeTemplateExerciseAction({
+      templateExerciseId: exercise.id,
+      templateId,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-5 gap-2 py-2 border-t">
+      <span className="col-span-2 flex items-center justify-between gap-2">
+        <span className="truncate">{exercise.name}</span>
+        <Button variant="ghost" size="sm" onClick={handleRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </span>
+      <Input
+        type="number"
+        min={1}
+        max={20}
+        value={targetSets}
+        onChange={(e) => setTargetSets(e.target.value)}
+      />
+      <Input
+        type="number"
+        value={targetReps}
+        onChange={(e) => setTargetReps(e.target.value)}
+        placeholder="-"
+      />
+      <Input
+        type="number"
+        step="0.01"
+        value={targetWeight}
+        onChange={(e) => setTargetWeight(e.target.value)}
+        placeholder="-"
+      />
+    </div>
+  );
+}
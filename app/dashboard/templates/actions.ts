@@ -0,0 +1,22 @@
+"use server";
+
+import { z } from "zod";
+import { createTemplate } from "@/data/templates";
+import { revalidatePath } from "next/cache";
+
+const CreateTemplateSchema = z.object({
+  name: z.string().min(1, "Template name is required").max(255),
+  notes: z.string().max(1000).optional(),
+});
+
+type CreateTemplateInput = z.infer<typeof CreateTemplateSchema>;
+
+export async function createTemplateAction(input: CreateTemplateInput) {
+  const validated = CreateTemplateSchema.parse(input);
+
+  const template = await createTemplate(validated);
+
+  revalidatePath("/dashboard/templates");
+
+  return { templateId: template.id };
+}
@@ -0,0 +1,12 @@
+import { getTemplates } from "@/data/templates";
+import { TemplateList } from "./template-list";
+
+export default async function TemplatesPage() {
+  const templates = await getTemplates();
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <TemplateList templates={templates} />
+    </div>
+  );
+}
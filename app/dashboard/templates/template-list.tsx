@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ClipboardList, Pencil, Play } from "lucide-react";
+import { createTemplateAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { TemplateSummary } from "@/data/templates";
+
+interface TemplateListProps {
+  templates: TemplateSummary[];
+}
+
+export function TemplateList({ templates }: TemplateListProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSubmitting(true);
+
+    try {
+      const result = await createTemplateAction({ name: name.trim() });
+
+      router.push(`/dashboard/templates/${result.templateId}`);
+    } catch {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Workout Templates</h1>
+        <Button asChild variant="outline">
+          <Link href="/dashboard">Back to Log</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Template</CardTitle>
+          <CardDescription>
+            Save a session you repeat so you can start it in one step
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="template-name">Template Name</Label>
+              <Input
+                id="template-name"
+                placeholder="e.g., Push Day"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={255}
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? "Creating..." : "Create Template"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4">
+        {templates.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground text-center">
+                No templates yet
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          templates.map((template) => (
+            <Card key={template.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <CardTitle>{template.name}</CardTitle>
+                    <CardDescription>
+                      {template.exerciseCount} exercises
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button asChild variant="outline" size="sm">
+                      <Link href={`/dashboard/templates/${template.id}`}>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Edit
+                      </Link>
+                    </Button>
+                    <Button asChild size="sm">
+                      <Link
+                        href={`/dashboard/workout/new?template=${template.id}`}
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        Start
+                      </Link>
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
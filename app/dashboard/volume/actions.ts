@@ -0,0 +1,35 @@
+"use server";
+
+import { z } from "zod";
+import { updateVolumeTargets } from "@/data/users";
+import { MUSCLE_GROUPS } from "@/lib/exercise-metadata";
+import { MAX_VOLUME_TARGET_SETS } from "@/lib/volume";
+import { revalidatePath } from "next/cache";
+
+const UpdateVolumeTargetsSchema = z.object({
+  targets: z.array(
+    z
+      .object({
+        muscle: z.enum(MUSCLE_GROUPS),
+        minSets: z.number().int().min(0).max(MAX_VOLUME_TARGET_SETS),
+        maxSets: z.number().int().min(0).max(MAX_VOLUME_TARGET_SETS),
+      })
+      .refine((target) => target.minSets <= target.maxSets, {
+        message: "The minimum cannot be above the maximum",
+      })
+  ),
+});
+
+type UpdateVolumeTargetsInput = z.infer<typeof UpdateVolumeTargetsSchema>;
+
+export async function updateVolumeTargetsAction(
+  input: UpdateVolumeTargetsInput
+) {
+  const validated = UpdateVolumeTargetsSchema.parse(input);
+
+  await updateVolumeTargets(validated.targets);
+
+  revalidatePath("/dashboard/volume");
+
+  return { success: true };
+}
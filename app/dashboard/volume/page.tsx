@@ -0,0 +1,216 @@
+import Link from "next/link";
+import { addDays, format, isValid, parseISO } from "date-fns";
+import { getMuscleVolumeSets } from "@/data/analytics";
+import { getUserSettings, getVolumeTargets } from "@/data/users";
+import {
+  MUSCLE_GROUPS,
+  MUSCLE_GROUP_LABELS,
+} from "@/lib/exercise-metadata";
+import {
+  DEFAULT_VOLUME_WEEKS,
+  VOLUME_WEEK_OPTIONS,
+  recentWeekStarts,
+  volumeStatus,
+  weeklyMuscleVolume,
+  type VolumeStatus,
+} from "@/lib/volume";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { VolumeTargetsDialog } from "./volume-targets-dialog";
+
+const STATUS_CLASSES: Record<VolumeStatus, string> = {
+  under: "bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-200",
+  within: "bg-primary/10",
+  over: "bg-destructive/10 text-destructive",
+};
+
+const STATUS_LABELS: Record<VolumeStatus, string> = {
+  under: "Under target",
+  within: "On target",
+  over: "Over target",
+};
+
+// Half sets come from secondary muscles
+function formatSets(sets: number) {
+  return Number.isInteger(sets) ? String(sets) : sets.toFixed(1);
+}
+
+interface VolumePageProps {
+  // date is the user's local today, so the current week matches their clock
+  searchParams: Promise<{ weeks?: string; date?: string }>;
+}
+
+export default async function VolumePage({ searchParams }: VolumePageProps) {
+  const { weeks: weeksParam, date } = await searchParams;
+  const weeks =
+    VOLUME_WEEK_OPTIONS.find((option) => String(option) === weeksParam) ??
+    DEFAULT_VOLUME_WEEKS;
+  const today = date && isValid(parseISO(date)) ? parseISO(date) : new Date();
+
+  const [{ weekStartsOn }, targets] = await Promise.all([
+    getUserSettings(),
+    getVolumeTargets(),
+  ]);
+
+  const weekStarts = recentWeekStarts(weeks, weekStartsOn, today);
+  const rows = await getMuscleVolumeSets({
+    from: weekStarts[0],
+    to: format(addDays(parseISO(weekStarts[weeks - 1]), 6), "yyyy-MM-dd"),
+  });
+  const volume = weeklyMuscleVolume(rows, weekStarts, weekStartsOn);
+
+  // The current week is still in progress, so the average and the summary
+  // only look at the weeks already finished
+  const averages = Object.fromEntries(
+    MUSCLE_GROUPS.map((muscle) => {
+      const finished = volume[muscle].slice(0, -1);
+      const total = finished.reduce((sum, sets) => sum + sets, 0);
+      return [muscle, Math.round((total / finished.length) * 2) / 2];
+    })
+  );
+  const musclesByStatus = (status: VolumeStatus) =>
+    MUSCLE_GROUPS.filter(
+      (muscle) => volumeStatus(averages[muscle], targets[muscle]) === status
+    );
+  const under = musclesByStatus("under");
+  const over = musclesByStatus("over");
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Weekly Volume</h1>
+          <div className="flex items-center gap-2">
+            <VolumeTargetsDialog targets={targets} />
+            <Button asChild variant="outline">
+              <Link href="/dashboard">Back to Log</Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {VOLUME_WEEK_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              asChild
+              size="sm"
+              variant={option === weeks ? "default" : "outline"}
+            >
+              <Link
+                href={`/dashboard/volume?weeks=${option}&date=${format(today, "yyyy-MM-dd")}`}
+              >
+                {option} weeks
+              </Link>
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Under target</CardTitle>
+              <CardDescription>
+                {under.length > 0
+                  ? under.map((m) => MUSCLE_GROUP_LABELS[m]).join(", ")
+                  : "Every muscle group is getting enough sets"}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Over target</CardTitle>
+              <CardDescription>
+                {over.length > 0
+                  ? over.map((m) => MUSCLE_GROUP_LABELS[m]).join(", ")
+                  : "No muscle group is above its range"}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Hard Sets per Muscle Group</CardTitle>
+            <CardDescription>
+              Working sets count once for each primary muscle and half for
+              each secondary muscle. The average leaves out the current week.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-4 text-xs">
+              {(Object.keys(STATUS_LABELS) as VolumeStatus[]).map((status) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span
+                    className={cn("h-3 w-3 rounded-sm", STATUS_CLASSES[status])}
+                  />
+                  {STATUS_LABELS[status]}
+                </span>
+              ))}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="py-2 pr-4 text-left font-medium">Muscle</th>
+                    {weekStarts.map((weekStart, index) => (
+                      <th key={weekStart} className="px-2 py-2 font-medium">
+                        {index === weekStarts.length - 1
+                          ? "This week"
+                          : format(parseISO(weekStart), "d MMM")}
+                      </th>
+                    ))}
+                    <th className="px-2 py-2 font-medium">Average</th>
+                    <th className="px-2 py-2 font-medium">Target</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {MUSCLE_GROUPS.map((muscle) => (
+                    <tr key={muscle} className="border-t">
+                      <td className="py-1 pr-4 font-medium">
+                        {MUSCLE_GROUP_LABELS[muscle]}
+                      </td>
+                      {volume[muscle].map((sets, index) => (
+                        <td key={weekStarts[index]} className="px-1 py-1">
+                          <span
+                            className={cn(
+                              "block rounded-sm px-2 py-1 text-center",
+                              STATUS_CLASSES[volumeStatus(sets, targets[muscle])]
+                            )}
+                          >
+                            {formatSets(sets)}
+                          </span>
+                        </td>
+                      ))}
+                      <td className="px-1 py-1">
+                        <span
+                          className={cn(
+                            "block rounded-sm px-2 py-1 text-center font-medium",
+                            STATUS_CLASSES[
+                              volumeStatus(averages[muscle], targets[muscle])
+                            ]
+                          )}
+                        >
+                          {formatSets(averages[muscle])}
+                        </span>
+                      </td>
+                      <td className="px-2 py-1 text-center text-muted-foreground">
+                        {targets[muscle].minSets}–{targets[muscle].maxSets}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { Target } from "lucide-react";
+import { updateVolumeTargetsAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  MUSCLE_GROUPS,
+  MUSCLE_GROUP_LABELS,
+  type MuscleGroup,
+} from "@/lib/exercise-metadata";
+import { MAX_VOLUME_TARGET_SETS, type VolumeTarget } from "@/lib/volume";
+
+interface VolumeTargetsDialogProps {
+  targets: Record<MuscleGroup, VolumeTarget>;
+}
+
+export function VolumeTargetsDialog({ targets }: VolumeTargetsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(targets);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const invalidMuscles = MUSCLE_GROUPS.filter(
+    (muscle) => draft[muscle].minSets > draft[muscle].maxSets
+  );
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Start from the saved targets each time the dialog opens
+    if (nextOpen) setDraft(targets);
+    setOpen(nextOpen);
+  };
+
+  const handleChange = (
+    muscle: MuscleGroup,
+    field: keyof VolumeTarget,
+    value: string
+  ) => {
+    const sets = Math.min(
+      Math.max(Math.round(Number(value) || 0), 0),
+      MAX_VOLUME_TARGET_SETS
+    );
+    setDraft({ ...draft, [muscle]: { ...draft[muscle], [field]: sets } });
+  };
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      await updateVolumeTargetsAction({
+        targets: MUSCLE_GROUPS.map((muscle) => ({ muscle, ...draft[muscle] })),
+      });
+      setOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Target className="h-4 w-4 mr-2" />
+          Targets
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Weekly Set Targets</DialogTitle>
+          <DialogDescription>
+            The range of hard sets each muscle group should get per week
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-96 pr-3">
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Muscle</span>
+              <span>Min</span>
+              <span>Max</span>
+            </div>
+            {MUSCLE_GROUPS.map((muscle) => (
+              <div
+                key={muscle}
+                className="grid grid-cols-[1fr_5rem_5rem] items-center gap-2"
+              >
+                <span className="text-sm">{MUSCLE_GROUP_LABELS[muscle]}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={MAX_VOLUME_TARGET_SETS}
+                  aria-label={`${MUSCLE_GROUP_LABELS[muscle]} minimum sets`}
+                  value={draft[muscle].minSets}
+                  onChange={(e) =>
+                    handleChange(muscle, "minSets", e.target.value)
+                  }
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={MAX_VOLUME_TARGET_SETS}
+                  aria-label={`${MUSCLE_GROUP_LABELS[muscle]} maximum sets`}
+                  value={draft[muscle].maxSets}
+                  onChange={(e) =>
+                    handleChange(muscle, "maxSets", e.target.value)
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+        {invalidMuscles.length > 0 && (
+          <p className="text-sm text-destructive">
+            The minimum is above the maximum for{" "}
+            {invalidMuscles.map((m) => MUSCLE_GROUP_LABELS[m]).join(", ")}
+          </p>
+        )}
+        <DialogFooter>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || invalidMuscles.length > 0}
+          >
+            {isSaving ? "Saving..." : "Save Targets"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
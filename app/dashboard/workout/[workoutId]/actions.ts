@@ -1,14 +1,47 @@
 "use server";
 
 import { z } from "zod";
-import { updateWorkout } from "@/data/workouts";
 import {
+  updateWorkout,
+  startWorkoutSession,
+  finishWorkoutSession,
+} from "@/data/workouts";
+import {
+  getAllExercises,
+  createCustomExercise,
+  DuplicateExerciseNameError,
   addExerciseToWorkout,
+  addLoggedExercisesToWorkout,
   removeExerciseFromWorkout,
   createSet,
   updateSet,
   deleteSet,
+  completeSet,
+  setExerciseRestTime,
+  getMeasurementType,
+  groupWithNextExercise,
+  ungroupExercise,
+  reorderWorkoutExercises,
+  reorderSets,
 } from "@/data/exercises";
+import { getPersonalRecordsForSet } from "@/data/analytics";
+import { SET_TYPES } from "@/lib/sets";
+import { MAX_RIR, MAX_RPE, MIN_RPE } from "@/lib/effort";
+import {
+  DEFAULT_MEASUREMENT_TYPE,
+  MEASUREMENT_TYPES,
+  MEASUREMENT_TYPE_LABELS,
+  SET_FIELD_NAMES,
+  findInvalidSetField,
+  type SetField,
+} from "@/lib/measurements";
+import {
+  parseQuickLog,
+  type QuickLogEntry,
+  type QuickLogSet,
+} from "@/lib/quick-log";
+import { findClosestExercise } from "@/lib/exercise-matching";
+import { EQUIPMENT, MUSCLE_GROUPS } from "@/lib/exercise-metadata";
 import { revalidatePath } from "next/cache";
 
 const UpdateWorkoutSchema = z.object({
@@ -34,11 +67,39 @@ export async function updateWorkoutAction(input: UpdateWorkoutInput) {
   return { workoutId: workout.id, date: validated.date };
 }
 
+// Start or finish the live session
+const WorkoutSessionSchema = z.object({
+  workoutId: z.number(),
+});
+
+type WorkoutSessionInput = z.infer<typeof WorkoutSessionSchema>;
+
+export async function startWorkoutAction(input: WorkoutSessionInput) {
+  const validated = WorkoutSessionSchema.parse(input);
+
+  await startWorkoutSession(validated.workoutId);
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+  revalidatePath("/dashboard");
+
+  return { success: true };
+}
+
+export async function finishWorkoutAction(input: WorkoutSessionInput) {
+  const validated = WorkoutSessionSchema.parse(input);
+
+  await finishWorkoutSession(validated.workoutId);
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+  revalidatePath("/dashboard");
+
+  return { success: true };
+}
+
 // Add exercise to workout
 const AddExerciseSchema = z.object({
   workoutId: z.number(),
   exerciseId: z.number(),
-  order: z.number().default(0),
 });
 
 type AddExerciseInput = z.infer<typeof AddExerciseSchema>;
@@ -53,6 +114,154 @@ export async function addExerciseAction(input: AddExerciseInput) {
   return { workoutExerciseId: workoutExercise.id };
 }
 
+// Create a custom exercise and add it to the workout
+const CreateExerciseSchema = z.object({
+  workoutId: z.number(),
+  name: z.string().trim().min(1, "Enter a name").max(255),
+  measurementType: z.enum(MEASUREMENT_TYPES).default(DEFAULT_MEASUREMENT_TYPE),
+  primaryMuscle: z.enum(MUSCLE_GROUPS).nullable().default(null),
+  equipment: z.enum(EQUIPMENT).nullable().default(null),
+});
+
+type CreateExerciseInput = z.input<typeof CreateExerciseSchema>;
+
+export async function createExerciseAction(input: CreateExerciseInput) {
+  const validated = CreateExerciseSchema.parse(input);
+
+  // The data layer rejects names the user can already see
+  let exercise: Awaited<ReturnType<typeof createCustomExercise>>;
+  try {
+    exercise = await createCustomExercise({
+      name: validated.name,
+      measurementType: validated.measurementType,
+      primaryMuscles: validated.primaryMuscle ? [validated.primaryMuscle] : [],
+      secondaryMuscles: [],
+      equipment: validated.equipment,
+      movementPattern: null,
+      unilateral: false,
+    });
+  } catch (error) {
+    if (error instanceof DuplicateExerciseNameError) {
+      return { success: false as const, error: error.message };
+    }
+    throw error;
+  }
+
+  const workoutExercise = await addExerciseToWorkout({
+    workoutId: validated.workoutId,
+    exerciseId: exercise.id,
+  });
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+
+  return { success: true as const, workoutExerciseId: workoutExercise.id };
+}
+
+// Log exercises typed in shorthand, one per line
+const QuickLogSchema = z.object({
+  workoutId: z.number(),
+  text: z.string().max(5000),
+  // Exercises the user picked for names that matched more than one
+  choices: z
+    .array(z.object({ name: z.string(), exerciseId: z.number() }))
+    .default([]),
+});
+
+type QuickLogInput = z.input<typeof QuickLogSchema>;
+
+export async function quickLogAction(input: QuickLogInput) {
+  const validated = QuickLogSchema.parse(input);
+
+  let entries: QuickLogEntry[];
+  try {
+    entries = parseQuickLog(validated.text);
+  } catch (error) {
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : "Could not read the log",
+    };
+  }
+
+  const library = await getAllExercises();
+  const logged: { exerciseId: number; name: string; sets: QuickLogSet[] }[] =
+    [];
+  const unclear = new Map<string, { id: number; name: string }[]>();
+
+  for (const entry of entries) {
+    const choice = validated.choices.find((c) => c.name === entry.name);
+    const { exercise, candidates } = choice
+      ? {
+          exercise: library.find((e) => e.id === choice.exerciseId) ?? null,
+          candidates: [],
+        }
+      : findClosestExercise(entry.name, library);
+
+    // Nothing is logged to an exercise the user didn't name until they
+    // confirm which one they meant
+    if (!exercise && candidates.length > 0) {
+      unclear.set(
+        entry.name,
+        candidates.map(({ id, name }) => ({ id, name }))
+      );
+      continue;
+    }
+    if (!exercise) {
+      return {
+        success: false as const,
+        error: `No exercise matches "${entry.name}"`,
+      };
+    }
+
+    // Bodyweight sets only make sense on exercises that log added weight
+    if (
+      exercise.measurementType !== "bodyweight" &&
+      entry.sets.some((set) => set.bodyweight)
+    ) {
+      return {
+        success: false as const,
+        error: `${exercise.name} is not a bodyweight exercise`,
+      };
+    }
+
+    const field = entry.sets
+      .map((set) => findInvalidSetField(exercise.measurementType, set))
+      .find((invalid) => invalid !== null);
+    if (field) {
+      return {
+        success: false as const,
+        error: `${exercise.name} does not record ${SET_FIELD_NAMES[field]}`,
+      };
+    }
+
+    logged.push({
+      exerciseId: exercise.id,
+      name: exercise.name,
+      sets: entry.sets,
+    });
+  }
+
+  if (unclear.size > 0) {
+    return {
+      success: false as const,
+      error: "Pick which exercise you meant",
+      ambiguous: [...unclear].map(([name, candidates]) => ({
+        name,
+        candidates,
+      })),
+    };
+  }
+
+  await addLoggedExercisesToWorkout(validated.workoutId, logged);
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+  revalidatePath("/dashboard");
+
+  return {
+    success: true as const,
+    exerciseNames: logged.map((entry) => entry.name),
+  };
+}
+
 // Remove exercise from workout
 const RemoveExerciseSchema = z.object({
   workoutExerciseId: z.number(),
@@ -71,28 +280,137 @@ export async function removeExerciseAction(input: RemoveExerciseInput) {
   return { success: true };
 }
 
+// Group an exercise with the next one, or take it out of its group
+const GroupExerciseSchema = z.object({
+  workoutExerciseId: z.number(),
+  workoutId: z.number(),
+});
+
+type GroupExerciseInput = z.infer<typeof GroupExerciseSchema>;
+
+export async function groupWithNextExerciseAction(input: GroupExerciseInput) {
+  const validated = GroupExerciseSchema.parse(input);
+
+  await groupWithNextExercise(validated.workoutExerciseId);
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+  revalidatePath("/dashboard");
+
+  return { success: true };
+}
+
+export async function ungroupExerciseAction(input: GroupExerciseInput) {
+  const validated = GroupExerciseSchema.parse(input);
+
+  await ungroupExercise(validated.workoutExerciseId);
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+  revalidatePath("/dashboard");
+
+  return { success: true };
+}
+
+// Reorder the workout's exercises
+const ReorderExercisesSchema = z.object({
+  workoutId: z.number(),
+  workoutExerciseIds: z.array(z.number()),
+});
+
+type ReorderExercisesInput = z.infer<typeof ReorderExercisesSchema>;
+
+export async function reorderExercisesAction(input: ReorderExercisesInput) {
+  const validated = ReorderExercisesSchema.parse(input);
+
+  await reorderWorkoutExercises(
+    validated.workoutId,
+    validated.workoutExerciseIds
+  );
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+  revalidatePath("/dashboard");
+
+  return { success: true };
+}
+
+// Reorder the sets of one exercise, renumbering them to match
+const ReorderSetsSchema = z.object({
+  workoutExerciseId: z.number(),
+  setIds: z.array(z.number()),
+  workoutId: z.number(),
+});
+
+type ReorderSetsInput = z.infer<typeof ReorderSetsSchema>;
+
+export async function reorderSetsAction(input: ReorderSetsInput) {
+  const validated = ReorderSetsSchema.parse(input);
+
+  await reorderSets(validated.workoutExerciseId, validated.setIds);
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+  revalidatePath("/dashboard");
+
+  return { success: true };
+}
+
+// Reject values the exercise does not record, such as a weight on a plank
+async function assertSetFields(
+  target: { workoutExerciseId: number } | { setId: number },
+  values: Partial<Record<SetField, unknown>>
+) {
+  const measurementType = await getMeasurementType(target);
+  if (!measurementType) {
+    throw new Error("Set not found");
+  }
+
+  const field = findInvalidSetField(measurementType, values);
+  if (field) {
+    throw new Error(
+      `${MEASUREMENT_TYPE_LABELS[measurementType]} exercises do not record ${SET_FIELD_NAMES[field]}`
+    );
+  }
+}
+
 // Create set
 const CreateSetSchema = z.object({
   workoutExerciseId: z.number(),
-  setNumber: z.number().int().positive(),
+  setType: z.enum(SET_TYPES).default("working"),
   weight: z
     .string()
     .regex(/^\d+(\.\d{1,2})?$/, "Weight must be a valid decimal number")
     .nullable(),
   reps: z.number().int().min(0).nullable(),
+  rpe: z
+    .number()
+    .min(MIN_RPE)
+    .max(MAX_RPE)
+    .multipleOf(0.5, "RPE must be in half steps")
+    .nullable()
+    .default(null),
+  rir: z.number().int().min(0).max(MAX_RIR).nullable().default(null),
+  distance: z.number().positive().max(999999).nullable().default(null),
+  durationSeconds: z.number().int().min(0).nullable().default(null),
   workoutId: z.number(),
 });
 
-type CreateSetInput = z.infer<typeof CreateSetSchema>;
+type CreateSetInput = z.input<typeof CreateSetSchema>;
 
 export async function createSetAction(input: CreateSetInput) {
   const validated = CreateSetSchema.parse(input);
 
+  await assertSetFields(
+    { workoutExerciseId: validated.workoutExerciseId },
+    validated
+  );
+
   const set = await createSet({
     workoutExerciseId: validated.workoutExerciseId,
-    setNumber: validated.setNumber,
+    setType: validated.setType,
     weight: validated.weight,
     reps: validated.reps,
+    rpe: validated.rpe,
+    rir: validated.rir,
+    distance: validated.distance,
+    durationSeconds: validated.durationSeconds,
   });
 
   revalidatePath(`/dashboard/workout/${validated.workoutId}`);
@@ -103,12 +421,23 @@ export async function createSetAction(input: CreateSetInput) {
 // Update set
 const UpdateSetSchema = z.object({
   setId: z.number(),
+  setType: z.enum(SET_TYPES).optional(),
   weight: z
     .string()
     .regex(/^\d+(\.\d{1,2})?$/, "Weight must be a valid decimal number")
     .nullable()
     .optional(),
   reps: z.number().int().min(0).nullable().optional(),
+  rpe: z
+    .number()
+    .min(MIN_RPE)
+    .max(MAX_RPE)
+    .multipleOf(0.5, "RPE must be in half steps")
+    .nullable()
+    .optional(),
+  rir: z.number().int().min(0).max(MAX_RIR).nullable().optional(),
+  distance: z.number().positive().max(999999).nullable().optional(),
+  durationSeconds: z.number().int().min(0).nullable().optional(),
   workoutId: z.number(),
 });
 
@@ -117,14 +446,25 @@ type UpdateSetInput = z.infer<typeof UpdateSetSchema>;
 export async function updateSetAction(input: UpdateSetInput) {
   const validated = UpdateSetSchema.parse(input);
 
+  await assertSetFields({ setId: validated.setId }, validated);
+
   await updateSet(validated.setId, {
+    setType: validated.setType,
     weight: validated.weight,
     reps: validated.reps,
+    rpe: validated.rpe,
+    rir: validated.rir,
+    distance: validated.distance,
+    durationSeconds: validated.durationSeconds,
   });
 
+  // Flag any records this set now holds so the row can show them immediately
+  const personalRecords = await getPersonalRecordsForSet(validated.setId);
+
   revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+  revalidatePath("/dashboard");
 
-  return { success: true };
+  return { success: true, personalRecords };
 }
 
 // Delete set
@@ -144,3 +484,41 @@ export async function deleteSetAction(input: DeleteSetInput) {
 
   return { success: true };
 }
+
+// Mark a set as done (or not) during a session
+const CompleteSetSchema = z.object({
+  setId: z.number(),
+  completed: z.boolean(),
+  workoutId: z.number(),
+});
+
+type CompleteSetInput = z.infer<typeof CompleteSetSchema>;
+
+export async function completeSetAction(input: CompleteSetInput) {
+  const validated = CompleteSetSchema.parse(input);
+
+  const set = await completeSet(validated.setId, validated.completed);
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+
+  return { success: true, restSeconds: set.restSeconds };
+}
+
+// Save the rest time used after sets of an exercise
+const SetExerciseRestSchema = z.object({
+  exerciseId: z.number(),
+  restSeconds: z.number().int().min(0).max(3600),
+  workoutId: z.number(),
+});
+
+type SetExerciseRestInput = z.infer<typeof SetExerciseRestSchema>;
+
+export async function setExerciseRestAction(input: SetExerciseRestInput) {
+  const validated = SetExerciseRestSchema.parse(input);
+
+  await setExerciseRestTime(validated.exerciseId, validated.restSeconds);
+
+  revalidatePath(`/dashboard/workout/${validated.workoutId}`);
+
+  return { success: true };
+}
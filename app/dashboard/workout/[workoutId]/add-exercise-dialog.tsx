@@ -1,8 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Plus, Search } from "lucide-react";
 import { addExerciseAction } from "./actions";
+import { CreateExerciseForm } from "./create-exercise-form";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Dialog,
   DialogContent,
@@ -10,13 +13,43 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { searchExercises } from "@/lib/exercise-matching";
+import {
+  EQUIPMENT,
+  EQUIPMENT_LABELS,
+  MUSCLE_GROUPS,
+  MUSCLE_GROUP_LABELS,
+  type Equipment,
+  type MuscleGroup,
+} from "@/lib/exercise-metadata";
+import { cn } from "@/lib/utils";
+
+type PickerExercise = {
+  id: number;
+  // Set on the user's own custom exercises
+  userId: string | null;
+  name: string;
+  aliases: string[];
+  primaryMuscles: MuscleGroup[];
+  equipment: Equipment | null;
+};
+
+const ANY = "any";
 
 interface AddExerciseDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   workoutId: number;
-  availableExercises: { id: number; name: string }[];
-  currentExerciseCount: number;
+  availableExercises: PickerExercise[];
+  recentExerciseIds: number[];
+  frequentExerciseIds: number[];
 }
 
 export function AddExerciseDialog({
@@ -24,45 +57,254 @@ export function AddExerciseDialog({
   onOpenChange,
   workoutId,
   availableExercises,
-  currentExerciseCount,
+  recentExerciseIds,
+  frequentExerciseIds,
 }: AddExerciseDialogProps) {
   const [isAdding, setIsAdding] = useState(false);
+  const [query, setQuery] = useState("");
+  const [muscle, setMuscle] = useState<MuscleGroup | typeof ANY>(ANY);
+  const [equipment, setEquipment] = useState<Equipment | typeof ANY>(ANY);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Search results while typing; otherwise the user's recent and frequent
+  // exercises above the full library. The filters apply to every section.
+  const sections = useMemo(() => {
+    const filtered = availableExercises.filter(
+      (exercise) =>
+        (muscle === ANY || exercise.primaryMuscles.includes(muscle)) &&
+        (equipment === ANY || exercise.equipment === equipment)
+    );
+
+    if (query.trim()) {
+      return [{ title: null, exercises: searchExercises(query, filtered) }];
+    }
+
+    const byId = new Map(filtered.map((e) => [e.id, e]));
+    const pick = (ids: number[]) =>
+      ids.flatMap((id) => {
+        const exercise = byId.get(id);
+        return exercise ? [exercise] : [];
+      });
+
+    return [
+      { title: "Recent", exercises: pick(recentExerciseIds) },
+      { title: "Frequently used", exercises: pick(frequentExerciseIds) },
+      { title: "All exercises", exercises: filtered },
+    ].filter((section) => section.exercises.length > 0);
+  }, [
+    query,
+    muscle,
+    equipment,
+    availableExercises,
+    recentExerciseIds,
+    frequentExerciseIds,
+  ]);
+
+  const options = sections.flatMap((section) => section.exercises);
+  // Index of each section's first option in the flattened list
+  const sectionStarts = sections.map((_, i) =>
+    sections.slice(0, i).reduce((sum, s) => sum + s.exercises.length, 0)
+  );
+
+  // Keep the highlighted option in view as the arrow keys move it
+  useEffect(() => {
+    listRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, query]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setQuery("");
+      setMuscle(ANY);
+      setEquipment(ANY);
+      setActiveIndex(0);
+      setIsCreating(false);
+    }
+    onOpenChange(nextOpen);
+  };
 
   const handleSelect = async (exerciseId: number) => {
     setIsAdding(true);
     try {
-      await addExerciseAction({
-        workoutId,
-        exerciseId,
-        order: currentExerciseCount,
-      });
-      onOpenChange(false);
+      await addExerciseAction({ workoutId, exerciseId });
+      handleOpenChange(false);
     } finally {
       setIsAdding(false);
     }
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (options.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(
+        (index) => (index + step + options.length) % options.length
+      );
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const exercise = options[activeIndex];
+      if (exercise && !isAdding) {
+        handleSelect(exercise.id);
+      } else if (!exercise && query.trim()) {
+        setIsCreating(true);
+      }
+    }
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent>
         <DialogHeader>
           <DialogTitle>Add Exercise</DialogTitle>
         </DialogHeader>
-        <ScrollArea className="h-96">
-          <div className="space-y-2">
-            {availableExercises.map((exercise) => (
-              <Button
-                key={exercise.id}
-                variant="outline"
-                className="w-full justify-start"
-                onClick={() => handleSelect(exercise.id)}
-                disabled={isAdding}
+        {isCreating ? (
+          <CreateExerciseForm
+            workoutId={workoutId}
+            initialName={query.trim()}
+            onCreated={() => handleOpenChange(false)}
+            onCancel={() => setIsCreating(false)}
+          />
+        ) : (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                role="combobox"
+                aria-expanded="true"
+                aria-controls="exercise-picker-options"
+                aria-activedescendant={
+                  options[activeIndex]
+                    ? `exercise-option-${activeIndex}`
+                    : undefined
+                }
+                aria-label="Search exercises"
+                placeholder="Search exercises..."
+                className="pl-9"
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setActiveIndex(0);
+                }}
+                onKeyDown={handleKeyDown}
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={muscle}
+                onValueChange={(value) => {
+                  setMuscle(value as MuscleGroup | typeof ANY);
+                  setActiveIndex(0);
+                }}
+              >
+                <SelectTrigger className="w-full" aria-label="Muscle group">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All muscles</SelectItem>
+                  {MUSCLE_GROUPS.map((group) => (
+                    <SelectItem key={group} value={group}>
+                      {MUSCLE_GROUP_LABELS[group]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={equipment}
+                onValueChange={(value) => {
+                  setEquipment(value as Equipment | typeof ANY);
+                  setActiveIndex(0);
+                }}
+              >
+                <SelectTrigger className="w-full" aria-label="Equipment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All equipment</SelectItem>
+                  {EQUIPMENT.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {EQUIPMENT_LABELS[item]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ScrollArea className="h-96">
+              <div
+                ref={listRef}
+                id="exercise-picker-options"
+                role="listbox"
+                aria-label="Exercises"
+                className="space-y-4"
               >
-                {exercise.name}
-              </Button>
-            ))}
-          </div>
-        </ScrollArea>
+                {options.length === 0 && (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    {query.trim()
+                      ? <>No exercises match &ldquo;{query.trim()}&rdquo;</>
+                      : "No exercises match these filters"}
+                  </p>
+                )}
+                {sections.map((section, sectionIndex) => (
+                  <div key={section.title ?? "results"} className="space-y-2">
+                    {section.title && (
+                      <p className="text-xs font-medium uppercase text-muted-foreground">
+                        {section.title}
+                      </p>
+                    )}
+                    {section.exercises.map((exercise, i) => {
+                      const index = sectionStarts[sectionIndex] + i;
+                      return (
+                        <Button
+                          key={exercise.id}
+                          id={`exercise-option-${index}`}
+                          role="option"
+                          aria-selected={index === activeIndex}
+                          tabIndex={-1}
+                          variant="outline"
+                          className={cn(
+                            "w-full justify-start",
+                            index === activeIndex && "bg-accent"
+                          )}
+                          onMouseMove={() => setActiveIndex(index)}
+                          onClick={() => handleSelect(exercise.id)}
+                          disabled={isAdding}
+                        >
+                          {exercise.name}
+                          {exercise.userId && (
+                            <span className="text-xs text-muted-foreground">
+                              Custom
+                            </span>
+                          )}
+                          {exercise.primaryMuscles.length > 0 && (
+                            <span className="ml-auto text-xs text-muted-foreground">
+                              {exercise.primaryMuscles
+                                .map((m) => MUSCLE_GROUP_LABELS[m])
+                                .join(", ")}
+                            </span>
+                          )}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            <Button
+              variant="ghost"
+              className="w-full justify-start"
+              onClick={() => setIsCreating(true)}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {query.trim()
+                ? <>Create &ldquo;{query.trim()}&rdquo;</>
+                : "Create custom exercise"}
+            </Button>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { createExerciseAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_MEASUREMENT_TYPE,
+  MEASUREMENT_TYPES,
+  MEASUREMENT_TYPE_LABELS,
+  type MeasurementType,
+} from "@/lib/measurements";
+import {
+  EQUIPMENT,
+  EQUIPMENT_LABELS,
+  MUSCLE_GROUPS,
+  MUSCLE_GROUP_LABELS,
+  type Equipment,
+  type MuscleGroup,
+} from "@/lib/exercise-metadata";
+
+const NONE = "none";
+
+interface CreateExerciseFormProps {
+  workoutId: number;
+  initialName: string;
+  onCreated: () => void;
+  onCancel: () => void;
+}
+
+// Add a custom exercise, visible only to this user, straight into the workout
+export function CreateExerciseForm({
+  workoutId,
+  initialName,
+  onCreated,
+  onCancel,
+}: CreateExerciseFormProps) {
+  const [name, setName] = useState(initialName);
+  const [measurementType, setMeasurementType] = useState<MeasurementType>(
+    DEFAULT_MEASUREMENT_TYPE
+  );
+  const [primaryMuscle, setPrimaryMuscle] = useState<
+    MuscleGroup | typeof NONE
+  >(NONE);
+  const [equipment, setEquipment] = useState<Equipment | typeof NONE>(NONE);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const result = await createExerciseAction({
+        workoutId,
+        name,
+        measurementType,
+        primaryMuscle: primaryMuscle === NONE ? null : primaryMuscle,
+        equipment: equipment === NONE ? null : equipment,
+      });
+
+      if (result.success) {
+        onCreated();
+      } else {
+        setError(result.error);
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="custom-exercise-name">Name</Label>
+        <Input
+          id="custom-exercise-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={255}
+          autoFocus
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Logged as</Label>
+        <Select
+          value={measurementType}
+          onValueChange={(value) => setMeasurementType(value as MeasurementType)}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MEASUREMENT_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {MEASUREMENT_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>Primary muscle</Label>
+          <Select
+            value={primaryMuscle}
+            onValueChange={(value) =>
+              setPrimaryMuscle(value as MuscleGroup | typeof NONE)
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not set</SelectItem>
+              {MUSCLE_GROUPS.map((group) => (
+                <SelectItem key={group} value={group}>
+                  {MUSCLE_GROUP_LABELS[group]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Equipment</Label>
+          <Select
+            value={equipment}
+            onValueChange={(value) =>
+              setEquipment(value as Equipment | typeof NONE)
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not set</SelectItem>
+              {EQUIPMENT.map((item) => (
+                <SelectItem key={item} value={item}>
+                  {EQUIPMENT_LABELS[item]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Back
+        </Button>
+        <Button type="submit" disabled={isCreating || !name.trim()}>
+          {isCreating ? "Creating..." : "Create and Add"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,29 +1,139 @@
 "use client";
 
-import { useState } from "react";
-import { Trash2, Plus } from "lucide-react";
-import { removeExerciseAction, createSetAction } from "./actions";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  Trash2,
+  Plus,
+  Timer,
+  Link2,
+  Unlink,
+  ChevronUp,
+  ChevronDown,
+} from "lucide-react";
+import {
+  removeExerciseAction,
+  createSetAction,
+  setExerciseRestAction,
+  groupWithNextExerciseAction,
+  ungroupExerciseAction,
+  reorderSetsAction,
+} from "./actions";
 import { SetRow } from "./set-row";
+import { ReorderHandle } from "./reorder-handle";
+import { useReorder } from "@/hooks/use-reorder";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PersonalRecords } from "@/lib/strength";
+import type { PreviousExerciseSets } from "@/data/workouts";
+import type { WeightUnit } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import { formatClock } from "@/lib/sessions";
+import type { SetType } from "@/lib/sets";
+import {
+  MEASUREMENT_FIELDS,
+  setFieldLabel,
+  type MeasurementType,
+} from "@/lib/measurements";
+
+const REST_OPTIONS = [30, 45, 60, 90, 120, 150, 180, 240, 300];
 
 interface ExerciseCardProps {
   workoutId: number;
   exercise: {
     id: number;
+    exerciseId: number;
     name: string;
+    measurementType: MeasurementType;
     order: number;
     sets: {
       id: number;
       setNumber: number;
+      setType: SetType;
       weight: string | null;
       reps: number | null;
+      rpe: number | null;
+      rir: number | null;
+      distance: number | null;
+      durationSeconds: number | null;
+      completedAt: Date | null;
+      restSeconds: number | null;
     }[];
   };
+  personalRecords: PersonalRecords;
+  previous: PreviousExerciseSets | null;
+  weightUnit: WeightUnit;
+  restSeconds: number;
+  onSetCompleted: (setId: number) => void;
+  sessionActive: boolean;
+  // Up next in a superset during a live session
+  active: boolean;
+  grouped: boolean;
+  canGroupWithNext: boolean;
+  dragHandle: React.ReactNode;
+  // Left out at the top or bottom of the list
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
 }
 
-export function ExerciseCard({ workoutId, exercise }: ExerciseCardProps) {
+export function ExerciseCard({
+  workoutId,
+  exercise,
+  personalRecords,
+  previous,
+  weightUnit,
+  restSeconds,
+  onSetCompleted,
+  sessionActive,
+  active,
+  grouped,
+  canGroupWithNext,
+  dragHandle,
+  onMoveUp,
+  onMoveDown,
+}: ExerciseCardProps) {
   const [isAdding, setIsAdding] = useState(false);
+  const [prefillFromPrevious, setPrefillFromPrevious] = useState(true);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (active) {
+      cardRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [active]);
+
+  const fields = MEASUREMENT_FIELDS[exercise.measurementType];
+  const setReorder = useReorder(
+    exercise.sets.map((set) => set.id),
+    (setIds) =>
+      reorderSetsAction({ workoutExerciseId: exercise.id, setIds, workoutId })
+  );
+
+  const findPreviousSet = (setNumber: number) =>
+    previous?.sets.find((previousSet) => previousSet.setNumber === setNumber);
+
+  const restOptions = REST_OPTIONS.includes(restSeconds)
+    ? REST_OPTIONS
+    : [...REST_OPTIONS, restSeconds].sort((a, b) => a - b);
+
+  const handleRestChange = async (value: string) => {
+    await setExerciseRestAction({
+      exerciseId: exercise.exerciseId,
+      restSeconds: Number(value),
+      workoutId,
+    });
+  };
 
   const handleRemove = async () => {
     if (!confirm(`Remove ${exercise.name}?`)) return;
@@ -34,14 +144,37 @@ export function ExerciseCard({ workoutId, exercise }: ExerciseCardProps) {
     });
   };
 
+  const handleGroupWithNext = async () => {
+    await groupWithNextExerciseAction({
+      workoutExerciseId: exercise.id,
+      workoutId,
+    });
+  };
+
+  const handleUngroup = async () => {
+    await ungroupExerciseAction({ workoutExerciseId: exercise.id, workoutId });
+  };
+
   const handleAddSet = async () => {
     setIsAdding(true);
     try {
+      // Sets are numbered without gaps, so the new one comes next
+      const previousSet = prefillFromPrevious
+        ? findPreviousSet(exercise.sets.length + 1)
+        : undefined;
+
       await createSetAction({
         workoutExerciseId: exercise.id,
-        setNumber: exercise.sets.length + 1,
-        weight: null,
-        reps: null,
+        setType: previousSet?.setType,
+        // Sets logged before a measurement type change may carry other values
+        weight: fields.includes("weight") ? previousSet?.weight ?? null : null,
+        reps: fields.includes("reps") ? previousSet?.reps ?? null : null,
+        distance: fields.includes("distance")
+          ? previousSet?.distance ?? null
+          : null,
+        durationSeconds: fields.includes("durationSeconds")
+          ? previousSet?.durationSeconds ?? null
+          : null,
         workoutId,
       });
     } finally {
@@ -50,27 +183,133 @@ export function ExerciseCard({ workoutId, exercise }: ExerciseCardProps) {
   };
 
   return (
-    <Card>
+    <Card ref={cardRef} className={cn(active && "ring-2 ring-primary")}>
       <CardHeader>
         <div className="flex items-center justify-between">
-          <CardTitle className="text-lg">{exercise.name}</CardTitle>
-          <Button variant="ghost" size="sm" onClick={handleRemove}>
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            {dragHandle}
+            <Link
+              href={`/dashboard/exercises/${exercise.exerciseId}`}
+              className="hover:underline"
+            >
+              {exercise.name}
+            </Link>
+            {personalRecords.volume.includes(exercise.id) && (
+              <Badge variant="secondary">Volume PR</Badge>
+            )}
+            {active && <Badge>Up next</Badge>}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onMoveUp}
+              disabled={!onMoveUp}
+              aria-label={`Move ${exercise.name} up`}
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onMoveDown}
+              disabled={!onMoveDown}
+              aria-label={`Move ${exercise.name} down`}
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            {grouped && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleUngroup}
+                title="Remove from superset"
+                aria-label="Remove from superset"
+              >
+                <Unlink className="h-4 w-4" />
+              </Button>
+            )}
+            {canGroupWithNext && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleGroupWithNext}
+                title="Superset with next exercise"
+                aria-label="Superset with next exercise"
+              >
+                <Link2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Select value={String(restSeconds)} onValueChange={handleRestChange}>
+              <SelectTrigger size="sm" aria-label="Rest time">
+                <Timer className="h-4 w-4" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {restOptions.map((seconds) => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {formatClock(seconds)} rest
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" onClick={handleRemove}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
+        {previous && (
+          <p className="text-sm text-muted-foreground">
+            Last time: {format(new Date(`${previous.date}T00:00:00`), "do MMM yyyy")}
+          </p>
+        )}
       </CardHeader>
       <CardContent>
         {/* Header Row */}
-        <div className="grid grid-cols-4 gap-2 text-sm font-medium mb-2">
+        <div
+          className={cn(
+            "grid gap-2 text-sm font-medium mb-2",
+            sessionActive ? "grid-cols-7" : "grid-cols-6"
+          )}
+        >
           <span>Set</span>
-          <span>Weight (lbs)</span>
-          <span>Reps</span>
+          <span>Previous</span>
+          {fields.map((field) => (
+            <span
+              key={field}
+              className={cn(fields.length === 1 && "col-span-2")}
+            >
+              {setFieldLabel(field, exercise.measurementType, weightUnit)}
+            </span>
+          ))}
+          <span>RPE / RIR</span>
+          {sessionActive && <span>Done</span>}
           <span></span>
         </div>
 
         {/* Set Rows */}
         {exercise.sets.map((set) => (
-          <SetRow key={set.id} workoutId={workoutId} set={set} />
+          <div
+            key={set.id}
+            {...setReorder.targetProps(set.id)}
+            className={cn(setReorder.draggingId === set.id && "opacity-50")}
+          >
+            <SetRow
+              workoutId={workoutId}
+              set={set}
+              measurementType={exercise.measurementType}
+              personalRecords={personalRecords.sets[set.id] ?? []}
+              previousSet={findPreviousSet(set.setNumber) ?? null}
+              sessionActive={sessionActive}
+              onCompleted={() => onSetCompleted(set.id)}
+              dragHandle={
+                <ReorderHandle
+                  label={`set ${set.setNumber}`}
+                  {...setReorder.handleProps(set.id)}
+                />
+              }
+            />
+          </div>
         ))}
 
         {/* Add Set Button */}
@@ -84,6 +323,23 @@ export function ExerciseCard({ workoutId, exercise }: ExerciseCardProps) {
           <Plus className="h-4 w-4 mr-2" />
           Add Set
         </Button>
+        {previous && (
+          <div className="flex items-center gap-2 mt-2">
+            <Checkbox
+              id={`prefill-${exercise.id}`}
+              checked={prefillFromPrevious}
+              onCheckedChange={(checked) =>
+                setPrefillFromPrevious(checked === true)
+              }
+            />
+            <Label
+              htmlFor={`prefill-${exercise.id}`}
+              className="text-sm font-normal text-muted-foreground"
+            >
+              Prefill new sets from last session
+            </Label>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
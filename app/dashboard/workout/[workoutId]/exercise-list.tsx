@@ -1,36 +1,160 @@
 "use client";
 
+import { useState } from "react";
 import { ExerciseCard } from "./exercise-card";
+import { ReorderHandle } from "./reorder-handle";
+import { reorderExercisesAction } from "./actions";
+import { useReorder } from "@/hooks/use-reorder";
+import { cn } from "@/lib/utils";
+import {
+  groupLabel,
+  groupWorkoutExercises,
+  nextInGroup,
+} from "@/lib/supersets";
+import type { PersonalRecords } from "@/lib/strength";
+import type { PreviousExerciseSets } from "@/data/workouts";
+import type { WeightUnit } from "@/lib/units";
+import type { SetType } from "@/lib/sets";
+import type { MeasurementType } from "@/lib/measurements";
 
 interface ExerciseListProps {
   workoutId: number;
   exercises: {
     id: number;
+    exerciseId: number;
     name: string;
+    measurementType: MeasurementType;
+    supersetGroup: number | null;
     order: number;
     sets: {
       id: number;
       setNumber: number;
+      setType: SetType;
       weight: string | null;
       reps: number | null;
+      rpe: number | null;
+      rir: number | null;
+      distance: number | null;
+      durationSeconds: number | null;
+      completedAt: Date | null;
+      restSeconds: number | null;
     }[];
   }[];
+  personalRecords: PersonalRecords;
+  previousPerformance: Record<number, PreviousExerciseSets>;
+  weightUnit: WeightUnit;
+  restTimes: Record<number, number>;
+  onRestStart: (exerciseName: string, seconds: number) => void;
+  sessionActive: boolean;
 }
 
-export function ExerciseList({ workoutId, exercises }: ExerciseListProps) {
+export function ExerciseList({
+  workoutId,
+  exercises,
+  personalRecords,
+  previousPerformance,
+  weightUnit,
+  restTimes,
+  onRestStart,
+  sessionActive,
+}: ExerciseListProps) {
+  const [activeExerciseId, setActiveExerciseId] = useState<number | null>(
+    null
+  );
+  const exerciseIds = exercises.map((exercise) => exercise.id);
+  const { draggingId, move, handleProps, targetProps } = useReorder(
+    exerciseIds,
+    (workoutExerciseIds) =>
+      reorderExercisesAction({ workoutId, workoutExerciseIds })
+  );
+
   if (exercises.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
-        No exercises added. Click "Add Exercise" to start logging.
+        No exercises added. Click &quot;Add Exercise&quot; to start logging.
       </div>
     );
   }
 
+  const groups = groupWorkoutExercises(exercises);
+
+  // In a superset the session moves on to the next exercise after each set,
+  // and the rest timer only starts once the whole round is done
+  const handleSetCompleted = (
+    group: ExerciseListProps["exercises"],
+    exercise: ExerciseListProps["exercises"][number],
+    setId: number
+  ) => {
+    const { nextId, endOfRound } = nextInGroup(group, exercise.id, setId);
+
+    setActiveExerciseId(group.length > 1 ? nextId : null);
+    if (endOfRound) {
+      onRestStart(exercise.name, restTimes[exercise.exerciseId]);
+    }
+  };
+
+  const renderCard = (
+    group: ExerciseListProps["exercises"],
+    exercise: ExerciseListProps["exercises"][number]
+  ) => {
+    const index = exercises.indexOf(exercise);
+
+    return (
+      <div
+        key={exercise.id}
+        {...targetProps(exercise.id)}
+        className={cn(draggingId === exercise.id && "opacity-50")}
+      >
+        <ExerciseCard
+          workoutId={workoutId}
+          exercise={exercise}
+          personalRecords={personalRecords}
+          previous={previousPerformance[exercise.exerciseId] ?? null}
+          weightUnit={weightUnit}
+          restSeconds={restTimes[exercise.exerciseId]}
+          onSetCompleted={(setId) => handleSetCompleted(group, exercise, setId)}
+          sessionActive={sessionActive}
+          active={sessionActive && activeExerciseId === exercise.id}
+          grouped={group.length > 1}
+          canGroupWithNext={
+            index < exercises.length - 1 &&
+            group[group.length - 1] === exercise
+          }
+          dragHandle={
+            <ReorderHandle
+              label={exercise.name}
+              {...handleProps(exercise.id)}
+            />
+          }
+          onMoveUp={index > 0 ? () => move(exercise.id, index - 1) : undefined}
+          onMoveDown={
+            index < exercises.length - 1
+              ? () => move(exercise.id, index + 1)
+              : undefined
+          }
+        />
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
-      {exercises.map((exercise) => (
-        <ExerciseCard key={exercise.id} workoutId={workoutId} exercise={exercise} />
-      ))}
+      {groups.map((group) =>
+        group.length > 1 ? (
+          <div
+            key={group[0].id}
+            className="space-y-2 border-l-4 border-primary pl-3"
+          >
+            <p className="text-sm font-medium text-muted-foreground">
+              {groupLabel(group.length)}:{" "}
+              {group.map((exercise) => exercise.name).join(" + ")}
+            </p>
+            {group.map((exercise) => renderCard(group, exercise))}
+          </div>
+        ) : (
+          renderCard(group, group[0])
+        )
+      )}
     </div>
   );
 }
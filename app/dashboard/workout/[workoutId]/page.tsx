@@ -1,6 +1,17 @@
 import { notFound } from "next/navigation";
-import { getWorkoutWithExercises } from "@/data/workouts";
-import { getAllExercises } from "@/data/exercises";
+import {
+  getWorkoutWithExercises,
+  getPreviousExerciseSets,
+  type PreviousExerciseSets,
+} from "@/data/workouts";
+import {
+  getAllExercises,
+  getExerciseRestTimes,
+  getExerciseUsage,
+} from "@/data/exercises";
+import { getPersonalRecords } from "@/data/analytics";
+import { getUserSettings } from "@/data/users";
+import { summarizeWorkout } from "@/lib/sessions";
 import { WorkoutDetailView } from "./workout-detail-view";
 
 type Params = Promise<{ workoutId: string }>;
@@ -9,21 +20,57 @@ export default async function EditWorkoutPage({ params }: { params: Params }) {
   const { workoutId } = await params;
 
   // Fetch workout with exercises and available exercises in parallel
-  const [workoutData, availableExercises] = await Promise.all([
-    getWorkoutWithExercises(Number(workoutId)),
-    getAllExercises(),
-  ]);
+  const [workoutData, availableExercises, exerciseUsage, settings] =
+    await Promise.all([
+      getWorkoutWithExercises(Number(workoutId)),
+      getAllExercises(),
+      getExerciseUsage(),
+      getUserSettings(),
+    ]);
 
   if (!workoutData) {
     notFound();
   }
 
+  const exerciseIds = [
+    ...new Set(workoutData.exercises.map((exercise) => exercise.exerciseId)),
+  ];
+
+  const [personalRecords, restTimes, previousSets] = await Promise.all([
+    getPersonalRecords(exerciseIds),
+    getExerciseRestTimes(exerciseIds),
+    Promise.all(
+      exerciseIds.map((exerciseId) =>
+        getPreviousExerciseSets(exerciseId, workoutData.workout.date)
+      )
+    ),
+  ]);
+
+  // Previous session per exercise, keyed by exercise id
+  const previousPerformance: Record<number, PreviousExerciseSets> = {};
+  exerciseIds.forEach((exerciseId, index) => {
+    const previous = previousSets[index];
+    if (previous) {
+      previousPerformance[exerciseId] = previous;
+    }
+  });
+
   return (
     <div className="container mx-auto py-8 px-4">
       <WorkoutDetailView
         workout={workoutData.workout}
         exercises={workoutData.exercises}
         availableExercises={availableExercises}
+        exerciseUsage={exerciseUsage}
+        personalRecords={personalRecords}
+        previousPerformance={previousPerformance}
+        restTimes={restTimes}
+        summary={summarizeWorkout(
+          { ...workoutData.workout, exercises: workoutData.exercises },
+          personalRecords
+        )}
+        weightUnit={settings.weightUnit}
+        weekStartsOn={settings.weekStartsOn}
       />
     </div>
   );
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { quickLogAction } from "./actions";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// A typed name that matched more than one exercise
+type AmbiguousName = {
+  name: string;
+  candidates: { id: number; name: string }[];
+};
+
+export function QuickLogForm({ workoutId }: { workoutId: number }) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loggedNames, setLoggedNames] = useState<string[]>([]);
+  const [isLogging, setIsLogging] = useState(false);
+  const [ambiguous, setAmbiguous] = useState<AmbiguousName[]>([]);
+  // Exercise ids picked for ambiguous names, keyed by the typed name
+  const [choices, setChoices] = useState<Record<string, number>>({});
+
+  const hasUnansweredChoice = ambiguous.some(
+    (entry) => choices[entry.name] === undefined
+  );
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (hasUnansweredChoice) return;
+    setIsLogging(true);
+    setError(null);
+
+    try {
+      const result = await quickLogAction({
+        workoutId,
+        text,
+        choices: Object.entries(choices).map(([name, exerciseId]) => ({
+          name,
+          exerciseId,
+        })),
+      });
+      if (result.success) {
+        setText("");
+        setLoggedNames(result.exerciseNames);
+        setAmbiguous([]);
+        setChoices({});
+      } else {
+        setError(result.error);
+        setLoggedNames([]);
+        setAmbiguous(result.ambiguous ?? []);
+      }
+    } finally {
+      setIsLogging(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Label htmlFor={`quick-log-${workoutId}`}>Quick log</Label>
+      <Textarea
+        id={`quick-log-${workoutId}`}
+        placeholder={"Bench Press 3x5 @ 225\nsquat 315x5, 335x3, 355x1\npullups 4x10 bw+25"}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setAmbiguous([]);
+        }}
+        onKeyDown={(e) => {
+          // Ctrl/Cmd + Enter logs without reaching for the mouse
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.currentTarget.form?.requestSubmit();
+          }
+        }}
+        rows={3}
+      />
+      <p className="text-xs text-muted-foreground">
+        One exercise per line: sets x reps @ weight, or weight x reps for each
+        set. Add kg or lbs to use a different unit.
+      </p>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {ambiguous.map((entry) => (
+        <div key={entry.name} className="flex items-center gap-2">
+          <span className="text-sm">&ldquo;{entry.name}&rdquo; is</span>
+          <Select
+            value={choices[entry.name]?.toString() ?? ""}
+            onValueChange={(value) =>
+              setChoices({ ...choices, [entry.name]: Number(value) })
+            }
+          >
+            <SelectTrigger size="sm" className="w-56">
+              <SelectValue placeholder="Choose an exercise" />
+            </SelectTrigger>
+            <SelectContent>
+              {entry.candidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                  {candidate.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+      {loggedNames.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Logged {loggedNames.join(", ")}
+        </p>
+      )}
+      <Button
+        type="submit"
+        size="sm"
+        disabled={isLogging || !text.trim() || hasUnansweredChoice}
+      >
+        {isLogging ? "Logging..." : "Log Sets"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface ReorderHandleProps extends React.ComponentProps<"button"> {
+  label: string;
+}
+
+// Drag handle that also moves its item with the arrow keys when focused
+export function ReorderHandle({
+  label,
+  className,
+  ...props
+}: ReorderHandleProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={cn("cursor-grab px-1 active:cursor-grabbing", className)}
+      aria-label={`Reorder ${label}. Use the arrow keys to move it.`}
+      title="Drag or use the arrow keys to reorder"
+      {...props}
+    >
+      <GripVertical className="h-4 w-4" />
+    </Button>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Minus, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useNow } from "@/hooks/use-now";
+import { formatClock } from "@/lib/sessions";
+
+interface RestTimerProps {
+  exerciseName: string;
+  endsAt: number;
+  onAdjust: (seconds: number) => void;
+  onDismiss: () => void;
+}
+
+// Short beep and buzz when rest is over. Either can be unavailable (no audio
+// permission yet, desktop browsers without vibration), so both fail quietly.
+function alertRestOver() {
+  navigator.vibrate?.([200, 100, 200]);
+
+  try {
+    const audio = new AudioContext();
+    const oscillator = audio.createOscillator();
+    oscillator.frequency.value = 880;
+    oscillator.connect(audio.destination);
+    oscillator.start();
+    oscillator.stop(audio.currentTime + 0.4);
+    oscillator.onended = () => audio.close();
+  } catch {
+    // Audio is a nice-to-have
+  }
+}
+
+export function RestTimer({
+  exerciseName,
+  endsAt,
+  onAdjust,
+  onDismiss,
+}: RestTimerProps) {
+  const now = useNow(250);
+  const remaining = Math.ceil((endsAt - now) / 1000);
+  const alertedFor = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (remaining <= 0 && alertedFor.current !== endsAt) {
+      alertedFor.current = endsAt;
+      alertRestOver();
+    }
+  }, [remaining, endsAt]);
+
+  return (
+    <Card className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 shadow-lg">
+      <CardContent className="flex items-center gap-4">
+        <div>
+          <p className="text-xs text-muted-foreground">
+            {remaining > 0 ? `Rest · ${exerciseName}` : "Rest over"}
+          </p>
+          <p className="text-2xl font-semibold tabular-nums">
+            {formatClock(Math.max(remaining, 0))}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onAdjust(-15)}
+          aria-label="Subtract 15 seconds"
+        >
+          <Minus className="h-4 w-4" />
+          15s
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onAdjust(15)}
+          aria-label="Add 15 seconds"
+        >
+          <Plus className="h-4 w-4" />
+          15s
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDismiss}
+          aria-label="Dismiss rest timer"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
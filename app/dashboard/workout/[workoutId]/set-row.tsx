@@ -1,65 +1,326 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Trash2 } from "lucide-react";
-import { updateSetAction, deleteSetAction } from "./actions";
+import { Check, Trash2 } from "lucide-react";
+import {
+  updateSetAction,
+  deleteSetAction,
+  completeSetAction,
+} from "./actions";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useDebounce } from "@/hooks/use-debounce";
+import { cn } from "@/lib/utils";
+import { formatClock } from "@/lib/sessions";
+import {
+  SET_TYPES,
+  SET_TYPE_LABELS,
+  SET_TYPE_SHORT_LABELS,
+  type SetType,
+} from "@/lib/sets";
+import { MAX_RIR, RPE_VALUES } from "@/lib/effort";
+import {
+  MEASUREMENT_FIELDS,
+  formatSetValues,
+  parseDuration,
+  type MeasurementType,
+  type SetField,
+} from "@/lib/measurements";
+import {
+  PERSONAL_RECORD_LABELS,
+  type PersonalRecordType,
+} from "@/lib/strength";
+
+const NO_EFFORT = "none";
 
 interface SetRowProps {
   workoutId: number;
   set: {
     id: number;
     setNumber: number;
+    setType: SetType;
     weight: string | null;
     reps: number | null;
+    rpe: number | null;
+    rir: number | null;
+    distance: number | null;
+    durationSeconds: number | null;
+    completedAt: Date | null;
+    restSeconds: number | null;
   };
+  measurementType: MeasurementType;
+  personalRecords: PersonalRecordType[];
+  previousSet: {
+    weight: string | null;
+    reps: number | null;
+    distance: number | null;
+    durationSeconds: number | null;
+  } | null;
+  sessionActive: boolean;
+  onCompleted: () => void;
+  dragHandle: React.ReactNode;
 }
 
-export function SetRow({ workoutId, set }: SetRowProps) {
+export function SetRow({
+  workoutId,
+  set,
+  measurementType,
+  personalRecords,
+  previousSet,
+  sessionActive,
+  onCompleted,
+  dragHandle,
+}: SetRowProps) {
+  const fields = MEASUREMENT_FIELDS[measurementType];
+
+  // Records come back with each save, so a new PR shows as soon as the set
+  // is saved. The page's records take over again whenever they change.
+  const [records, setRecords] = useState(personalRecords);
+  const [pageRecords, setPageRecords] = useState(personalRecords.join());
+  if (personalRecords.join() !== pageRecords) {
+    setPageRecords(personalRecords.join());
+    setRecords(personalRecords);
+  }
   const [weight, setWeight] = useState(set.weight ?? "");
   const [reps, setReps] = useState(set.reps?.toString() ?? "");
+  const [distance, setDistance] = useState(set.distance?.toString() ?? "");
+  const [duration, setDuration] = useState(
+    set.durationSeconds !== null ? formatClock(set.durationSeconds) : ""
+  );
 
   // Debounced auto-save
   const debouncedWeight = useDebounce(weight, 500);
   const debouncedReps = useDebounce(reps, 500);
+  const debouncedDistance = useDebounce(distance, 500);
+  const debouncedDuration = useDebounce(duration, 500);
 
   useEffect(() => {
-    const hasChanges =
-      debouncedWeight !== (set.weight ?? "") ||
-      debouncedReps !== (set.reps?.toString() ?? "");
-
-    if (hasChanges) {
-      updateSetAction({
-        setId: set.id,
-        weight: debouncedWeight || null,
-        reps: debouncedReps ? Number(debouncedReps) : null,
-        workoutId,
-      });
+    // A half-typed time like "1:" is left alone until it parses
+    const durationSeconds = debouncedDuration
+      ? parseDuration(debouncedDuration)
+      : null;
+    if (debouncedDuration && durationSeconds === null) return;
+
+    const values: Record<SetField, string | number | null> = {
+      weight: debouncedWeight || null,
+      reps: debouncedReps ? Number(debouncedReps) : null,
+      distance: debouncedDistance ? Number(debouncedDistance) : null,
+      durationSeconds,
+    };
+    const saved: Record<SetField, string | number | null> = {
+      weight: set.weight,
+      reps: set.reps,
+      distance: set.distance,
+      durationSeconds: set.durationSeconds,
+    };
+
+    // Only the fields this exercise records are sent
+    const changes = Object.fromEntries(
+      fields
+        .filter((field) => values[field] !== saved[field])
+        .map((field) => [field, values[field]])
+    );
+
+    if (Object.keys(changes).length > 0) {
+      updateSetAction({ setId: set.id, ...changes, workoutId }).then(
+        (result) => setRecords(result.personalRecords)
+      );
     }
-  }, [debouncedWeight, debouncedReps, set.id, set.weight, set.reps, workoutId]);
+  }, [
+    debouncedWeight,
+    debouncedReps,
+    debouncedDistance,
+    debouncedDuration,
+    fields,
+    set.id,
+    set.weight,
+    set.reps,
+    set.distance,
+    set.durationSeconds,
+    workoutId,
+  ]);
+
+  const handleSetTypeChange = async (setType: SetType) => {
+    const result = await updateSetAction({ setId: set.id, setType, workoutId });
+    setRecords(result.personalRecords);
+  };
+
+  const handleEffortChange = async (
+    field: "rpe" | "rir",
+    value: string
+  ) => {
+    const result = await updateSetAction({
+      setId: set.id,
+      [field]: value === NO_EFFORT ? null : Number(value),
+      workoutId,
+    });
+    setRecords(result.personalRecords);
+  };
+
+  const handleToggleDone = async () => {
+    const completed = set.completedAt === null;
+
+    await completeSetAction({ setId: set.id, completed, workoutId });
+
+    if (completed) {
+      onCompleted();
+    }
+  };
 
   const handleDelete = async () => {
     await deleteSetAction({ setId: set.id, workoutId });
   };
 
   return (
-    <div className="grid grid-cols-4 gap-2 py-2 border-t">
-      <span className="flex items-center">{set.setNumber}</span>
-      <Input
-        type="number"
-        step="0.01"
-        value={weight}
-        onChange={(e) => setWeight(e.target.value)}
-        placeholder="0"
-      />
-      <Input
-        type="number"
-        value={reps}
-        onChange={(e) => setReps(e.target.value)}
-        placeholder="0"
-      />
+    <div
+      className={cn(
+        "grid gap-2 py-2 border-t",
+        sessionActive ? "grid-cols-7" : "grid-cols-6",
+        set.completedAt && "bg-muted/50",
+        set.setType === "warmup" && "text-muted-foreground"
+      )}
+    >
+      <span className="flex items-center gap-1">
+        {dragHandle}
+        <Select
+          value={set.setType}
+          onValueChange={(value) => handleSetTypeChange(value as SetType)}
+        >
+          <SelectTrigger
+            size="sm"
+            className={cn(
+              "w-14",
+              set.setType !== "working" && "font-semibold",
+              (set.setType === "drop" || set.setType === "failure") &&
+                "text-destructive",
+              set.setType === "amrap" && "text-primary"
+            )}
+            aria-label="Set type"
+            title={SET_TYPE_LABELS[set.setType]}
+          >
+            <SelectValue>
+              {SET_TYPE_SHORT_LABELS[set.setType] ?? set.setNumber}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {SET_TYPES.map((setType) => (
+              <SelectItem key={setType} value={setType}>
+                {SET_TYPE_LABELS[setType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {set.restSeconds !== null && (
+          <span
+            className="text-xs text-muted-foreground"
+            title="Rest before this set"
+          >
+            {formatClock(set.restSeconds)}
+          </span>
+        )}
+        {records.length > 0 && (
+          <Badge
+            title={records
+              .map((record) => PERSONAL_RECORD_LABELS[record])
+              .join(", ")}
+          >
+            PR
+          </Badge>
+        )}
+      </span>
+      <span className="flex items-center text-sm text-muted-foreground">
+        {previousSet ? formatSetValues(measurementType, previousSet) : "-"}
+      </span>
+      {fields.map((field) => (
+        <div key={field} className={cn(fields.length === 1 && "col-span-2")}>
+          {field === "weight" && (
+            <Input
+              type="number"
+              step="0.01"
+              value={weight}
+              onChange={(e) => setWeight(e.target.value)}
+              placeholder="0"
+            />
+          )}
+          {field === "reps" && (
+            <Input
+              type="number"
+              value={reps}
+              onChange={(e) => setReps(e.target.value)}
+              placeholder="0"
+            />
+          )}
+          {field === "distance" && (
+            <Input
+              type="number"
+              step="0.01"
+              value={distance}
+              onChange={(e) => setDistance(e.target.value)}
+              placeholder="0"
+            />
+          )}
+          {field === "durationSeconds" && (
+            <Input
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              placeholder="0:00"
+              aria-invalid={duration !== "" && parseDuration(duration) === null}
+            />
+          )}
+        </div>
+      ))}
+      <span className="grid grid-cols-2 gap-1">
+        <Select
+          value={set.rpe?.toString() ?? NO_EFFORT}
+          onValueChange={(value) => handleEffortChange("rpe", value)}
+        >
+          <SelectTrigger className="w-full px-2" aria-label="RPE">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_EFFORT}>-</SelectItem>
+            {RPE_VALUES.map((rpe) => (
+              <SelectItem key={rpe} value={rpe.toString()}>
+                {rpe}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={set.rir?.toString() ?? NO_EFFORT}
+          onValueChange={(value) => handleEffortChange("rir", value)}
+        >
+          <SelectTrigger className="w-full px-2" aria-label="Reps in reserve">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_EFFORT}>-</SelectItem>
+            {Array.from({ length: MAX_RIR + 1 }, (_, rir) => (
+              <SelectItem key={rir} value={rir.toString()}>
+                {rir === MAX_RIR ? `${rir}+` : rir}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </span>
+      {sessionActive && (
+        <Button
+          variant={set.completedAt ? "default" : "outline"}
+          size="sm"
+          onClick={handleToggleDone}
+          aria-label={set.completedAt ? "Mark set not done" : "Mark set done"}
+        >
+          <Check className="h-4 w-4" />
+        </Button>
+      )}
       <Button variant="ghost" size="sm" onClick={handleDelete}>
         <Trash2 className="h-4 w-4" />
       </Button>
@@ -4,8 +4,20 @@ import { useState } from "react";
 import { WorkoutMetadataForm } from "./workout-metadata-form";
 import { ExerciseList } from "./exercise-list";
 import { AddExerciseDialog } from "./add-exercise-dialog";
+import { WorkoutSessionBar } from "./workout-session-bar";
+import { RestTimer } from "./rest-timer";
+import { QuickLogForm } from "./quick-log-form";
+import { RepeatWorkoutDialog } from "../../_components/repeat-workout-dialog";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import type { PersonalRecords } from "@/lib/strength";
+import type { PreviousExerciseSets } from "@/data/workouts";
+import type { WeightUnit } from "@/lib/units";
+import type { WeekStartDay } from "@/lib/settings";
+import type { WorkoutSummary } from "@/lib/sessions";
+import type { SetType } from "@/lib/sets";
+import type { MeasurementType } from "@/lib/measurements";
+import type { Equipment, MuscleGroup } from "@/lib/exercise-metadata";
 
 interface WorkoutDetailViewProps {
   workout: {
@@ -13,43 +25,113 @@ interface WorkoutDetailViewProps {
     name: string | null;
     date: string;
     notes: string | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
   };
   exercises: {
     id: number;
+    exerciseId: number;
     name: string;
+    measurementType: MeasurementType;
+    supersetGroup: number | null;
     order: number;
     sets: {
       id: number;
       setNumber: number;
+      setType: SetType;
       weight: string | null;
       reps: number | null;
+      rpe: number | null;
+      rir: number | null;
+      distance: number | null;
+      durationSeconds: number | null;
+      completedAt: Date | null;
+      restSeconds: number | null;
     }[];
   }[];
-  availableExercises: { id: number; name: string }[];
+  availableExercises: {
+    id: number;
+    userId: string | null;
+    name: string;
+    aliases: string[];
+    primaryMuscles: MuscleGroup[];
+    equipment: Equipment | null;
+  }[];
+  exerciseUsage: { recentIds: number[]; frequentIds: number[] };
+  personalRecords: PersonalRecords;
+  previousPerformance: Record<number, PreviousExerciseSets>;
+  restTimes: Record<number, number>;
+  summary: WorkoutSummary;
+  weightUnit: WeightUnit;
+  weekStartsOn: WeekStartDay;
 }
 
 export function WorkoutDetailView({
   workout,
   exercises,
   availableExercises,
+  exerciseUsage,
+  personalRecords,
+  previousPerformance,
+  restTimes,
+  summary,
+  weightUnit,
+  weekStartsOn,
 }: WorkoutDetailViewProps) {
   const [showAddExercise, setShowAddExercise] = useState(false);
+  const [rest, setRest] = useState<{
+    exerciseName: string;
+    endsAt: number;
+  } | null>(null);
+
+  const startRest = (exerciseName: string, seconds: number) => {
+    if (seconds <= 0) return;
+    setRest({ exerciseName, endsAt: Date.now() + seconds * 1000 });
+  };
 
   return (
     <div className="space-y-6">
+      {/* Live Session */}
+      <WorkoutSessionBar
+        workout={workout}
+        summary={summary}
+        weightUnit={weightUnit}
+      />
+
       {/* Metadata Section */}
-      <WorkoutMetadataForm workout={workout} />
+      <WorkoutMetadataForm workout={workout} weekStartsOn={weekStartsOn} />
 
       {/* Exercises Section */}
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>Exercises</CardTitle>
-            <Button onClick={() => setShowAddExercise(true)}>Add Exercise</Button>
+            <div className="flex items-center gap-2">
+              <RepeatWorkoutDialog
+                workoutId={workout.id}
+                workoutName={workout.name}
+                weekStartsOn={weekStartsOn}
+              />
+              <Button onClick={() => setShowAddExercise(true)}>
+                Add Exercise
+              </Button>
+            </div>
           </div>
         </CardHeader>
-        <CardContent>
-          <ExerciseList workoutId={workout.id} exercises={exercises} />
+        <CardContent className="space-y-6">
+          <QuickLogForm workoutId={workout.id} />
+          <ExerciseList
+            workoutId={workout.id}
+            exercises={exercises}
+            personalRecords={personalRecords}
+            previousPerformance={previousPerformance}
+            weightUnit={weightUnit}
+            restTimes={restTimes}
+            onRestStart={startRest}
+            sessionActive={
+              workout.startedAt !== null && workout.completedAt === null
+            }
+          />
         </CardContent>
       </Card>
 
@@ -58,8 +140,20 @@ export function WorkoutDetailView({
         onOpenChange={setShowAddExercise}
         workoutId={workout.id}
         availableExercises={availableExercises}
-        currentExerciseCount={exercises.length}
+        recentExerciseIds={exerciseUsage.recentIds}
+        frequentExerciseIds={exerciseUsage.frequentIds}
       />
+
+      {rest && (
+        <RestTimer
+          exerciseName={rest.exerciseName}
+          endsAt={rest.endsAt}
+          onAdjust={(seconds) =>
+            setRest({ ...rest, endsAt: rest.endsAt + seconds * 1000 })
+          }
+          onDismiss={() => setRest(null)}
+        />
+      )}
     </div>
   );
 }
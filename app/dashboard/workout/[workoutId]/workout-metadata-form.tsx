@@ -22,6 +22,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import type { WeekStartDay } from "@/lib/settings";
 
 type Workout = {
   id: number;
@@ -30,7 +31,13 @@ type Workout = {
   notes: string | null;
 };
 
-export function WorkoutMetadataForm({ workout }: { workout: Workout }) {
+export function WorkoutMetadataForm({
+  workout,
+  weekStartsOn,
+}: {
+  workout: Workout;
+  weekStartsOn: WeekStartDay;
+}) {
   const router = useRouter();
 
   const [name, setName] = useState(workout.name ?? "");
@@ -92,6 +99,7 @@ export function WorkoutMetadataForm({ workout }: { workout: Workout }) {
                   mode="single"
                   selected={date}
                   onSelect={(newDate) => newDate && setDate(newDate)}
+                  weekStartsOn={weekStartsOn}
                   autoFocus
                 />
               </PopoverContent>
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Flag, Play, Timer } from "lucide-react";
+import { startWorkoutAction, finishWorkoutAction } from "./actions";
+import { WorkoutSummaryStats } from "../../_components/workout-summary";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useNow } from "@/hooks/use-now";
+import { formatClock, type WorkoutSummary } from "@/lib/sessions";
+import type { WeightUnit } from "@/lib/units";
+
+interface WorkoutSessionBarProps {
+  workout: {
+    id: number;
+    startedAt: Date | null;
+    completedAt: Date | null;
+  };
+  summary: WorkoutSummary;
+  weightUnit: WeightUnit;
+}
+
+export function WorkoutSessionBar({
+  workout,
+  summary,
+  weightUnit,
+}: WorkoutSessionBarProps) {
+  const [isPending, setIsPending] = useState(false);
+  const isActive = workout.startedAt !== null && workout.completedAt === null;
+  const now = useNow(1000, isActive);
+
+  const handleStart = async () => {
+    setIsPending(true);
+    try {
+      await startWorkoutAction({ workoutId: workout.id });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!confirm("Finish this workout?")) return;
+
+    setIsPending(true);
+    try {
+      await finishWorkoutAction({ workoutId: workout.id });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  if (workout.completedAt) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Workout Complete</CardTitle>
+          <CardDescription>Here is how the session went</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WorkoutSummaryStats summary={summary} weightUnit={weightUnit} />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="flex items-center justify-between">
+        {isActive ? (
+          <span className="flex items-center gap-2 text-2xl font-semibold tabular-nums">
+            <Timer className="h-5 w-5 text-muted-foreground" />
+            <span suppressHydrationWarning>
+              {formatClock((now - workout.startedAt!.getTime()) / 1000)}
+            </span>
+          </span>
+        ) : (
+          <span className="text-sm text-muted-foreground">
+            Start a session to time the workout and tick off sets as you go
+          </span>
+        )}
+        {isActive ? (
+          <Button onClick={handleFinish} disabled={isPending}>
+            <Flag className="h-4 w-4 mr-2" />
+            {isPending ? "Finishing..." : "Finish Workout"}
+          </Button>
+        ) : (
+          <Button onClick={handleStart} disabled={isPending}>
+            <Play className="h-4 w-4 mr-2" />
+            {isPending ? "Starting..." : "Start Workout"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
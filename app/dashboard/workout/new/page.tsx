@@ -1,11 +1,18 @@
 import { Suspense } from "react";
+import { getTemplates } from "@/data/templates";
+import { getUserSettings } from "@/data/users";
 import { WorkoutForm } from "./workout-form";
 
-export default function NewWorkoutPage() {
+export default async function NewWorkoutPage() {
+  const [templates, { weekStartsOn }] = await Promise.all([
+    getTemplates(),
+    getUserSettings(),
+  ]);
+
   return (
     <div className="container mx-auto py-8 px-4">
       <Suspense>
-        <WorkoutForm />
+        <WorkoutForm templates={templates} weekStartsOn={weekStartsOn} />
       </Suspense>
     </div>
   );
@@ -9,6 +9,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
@@ -22,16 +23,40 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { TemplateSummary } from "@/data/templates";
+import type { WeekStartDay } from "@/lib/settings";
+
+const NO_TEMPLATE = "none";
 
-export function WorkoutForm() {
+interface WorkoutFormProps {
+  templates: TemplateSummary[];
+  weekStartsOn: WeekStartDay;
+}
+
+export function WorkoutForm({ templates, weekStartsOn }: WorkoutFormProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const dateParam = searchParams.get("date");
   const initialDate = dateParam ? new Date(dateParam) : new Date();
+  const templateParam = searchParams.get("template");
+  const initialTemplate = templates.some(
+    (template) => String(template.id) === templateParam
+  )
+    ? templateParam!
+    : NO_TEMPLATE;
 
   const [name, setName] = useState("");
   const [date, setDate] = useState<Date>(initialDate);
   const [notes, setNotes] = useState("");
+  const [templateId, setTemplateId] = useState(initialTemplate);
+  const [prefillSets, setPrefillSets] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   async function handleSubmit(e: React.FormEvent) {
@@ -43,9 +68,17 @@ export function WorkoutForm() {
         name: name || undefined,
         date: format(date, "yyyy-MM-dd"),
         notes: notes || undefined,
+        templateId:
+          templateId === NO_TEMPLATE ? undefined : Number(templateId),
+        prefillSets,
       });
 
-      router.push(`/dashboard?date=${result.date}`);
+      // Workouts started from a template go straight to logging
+      router.push(
+        result.fromTemplate
+          ? `/dashboard/workout/${result.workoutId}`
+          : `/dashboard?date=${result.date}`
+      );
     } catch {
       setIsSubmitting(false);
     }
@@ -59,11 +92,46 @@ export function WorkoutForm() {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="template">Start From Template (optional)</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger id="template" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEMPLATE}>Empty workout</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={String(template.id)}>
+                      {template.name} ({template.exerciseCount} exercises)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {templateId !== NO_TEMPLATE && (
+                <div className="flex items-center gap-2 pt-1">
+                  <Checkbox
+                    id="prefill-sets"
+                    checked={prefillSets}
+                    onCheckedChange={(checked) => setPrefillSets(checked === true)}
+                  />
+                  <Label htmlFor="prefill-sets" className="font-normal">
+                    Prefill sets with target weight and reps
+                  </Label>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="name">Workout Name (optional)</Label>
             <Input
               id="name"
-              placeholder="e.g., Morning Push Day"
+              placeholder={
+                templateId === NO_TEMPLATE
+                  ? "e.g., Morning Push Day"
+                  : templates.find((t) => String(t.id) === templateId)?.name
+              }
               value={name}
               onChange={(e) => setName(e.target.value)}
               maxLength={255}
@@ -87,6 +155,7 @@ export function WorkoutForm() {
                   mode="single"
                   selected={date}
                   onSelect={(newDate) => newDate && setDate(newDate)}
+                  weekStartsOn={weekStartsOn}
                   autoFocus
                 />
               </PopoverContent>
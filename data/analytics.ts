@@ -0,0 +1,173 @@
+import { db } from "@/db";
+import { exercises, workouts, workoutExercises, sets } from "@/db/schema";
+import {
+  eq,
+  and,
+  inArray,
+  isNotNull,
+  ne,
+  or,
+  gte,
+  lte,
+  count,
+  countDistinct,
+  max,
+} from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { getUserSettings } from "@/data/users";
+import { convertWeight } from "@/lib/units";
+import { findPersonalRecords, type PersonalRecords } from "@/lib/strength";
+
+// Get every completed set (weight and reps logged) for the given exercises in
+// chronological order, scoped to the current user. Weights are converted to
+// the user's preferred unit so sets logged in either unit compare correctly.
+// Warm-ups are left out unless asked for, so they never count as records.
+export async function getExerciseSetHistory(
+  exerciseIds: number[],
+  { includeWarmups = false }: { includeWarmups?: boolean } = {}
+) {
+  const user = await getCurrentUser();
+  const { weightUnit } = await getUserSettings();
+
+  if (exerciseIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({
+      setId: sets.id,
+      setNumber: sets.setNumber,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+      rpe: sets.rpe,
+      rir: sets.rir,
+      workoutExerciseId: workoutExercises.id,
+      exerciseId: workoutExercises.exerciseId,
+      workoutId: workouts.id,
+      workoutName: workouts.name,
+      date: workouts.date,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(workoutExercises.id, sets.workoutExerciseId))
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(
+      and(
+        eq(workouts.userId, user.id),
+        inArray(workoutExercises.exerciseId, exerciseIds),
+        isNotNull(sets.weight),
+        isNotNull(sets.reps),
+        includeWarmups ? undefined : ne(sets.setType, "warmup")
+      )
+    )
+    .orderBy(
+      workouts.date,
+      workouts.id,
+      workoutExercises.order,
+      workoutExercises.id,
+      sets.setNumber
+    );
+
+  return rows.map(({ weightUnit: setUnit, ...row }) => ({
+    ...row,
+    weight: convertWeight(Number(row.weight), setUnit, weightUnit),
+    reps: row.reps!,
+  }));
+}
+
+export type ExerciseHistorySet = Awaited<
+  ReturnType<typeof getExerciseSetHistory>
+>[number];
+
+// Compute personal records across the user's full history of these exercises,
+// estimating 1RMs with the user's chosen formula
+export async function getPersonalRecords(
+  exerciseIds: number[]
+): Promise<PersonalRecords> {
+  const [history, { e1rmFormula }] = await Promise.all([
+    getExerciseSetHistory(exerciseIds),
+    getUserSettings(),
+  ]);
+
+  return findPersonalRecords(history, e1rmFormula);
+}
+
+// Get the record types a single set currently holds
+export async function getPersonalRecordsForSet(setId: number) {
+  const user = await getCurrentUser();
+
+  const [set] = await db
+    .select({ exerciseId: workoutExercises.exerciseId })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(workoutExercises.id, sets.workoutExerciseId))
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(and(eq(sets.id, setId), eq(workouts.userId, user.id)))
+    .limit(1);
+
+  if (!set) {
+    return [];
+  }
+
+  const records = await getPersonalRecords([set.exerciseId]);
+
+  return records.sets[setId] ?? [];
+}
+
+// Every exercise the current user has logged, with how many sessions
+// included it and when it was last done, for the exercise overview
+export async function getTrainedExercises() {
+  const user = await getCurrentUser();
+
+  return db
+    .select({
+      id: exercises.id,
+      name: exercises.name,
+      primaryMuscles: exercises.primaryMuscles,
+      equipment: exercises.equipment,
+      sessionCount: countDistinct(workoutExercises.workoutId),
+      lastDate: max(workouts.date),
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .innerJoin(exercises, eq(exercises.id, workoutExercises.exerciseId))
+    .where(eq(workouts.userId, user.id))
+    .groupBy(exercises.id)
+    .orderBy(exercises.name);
+}
+
+export type TrainedExercise = Awaited<
+  ReturnType<typeof getTrainedExercises>
+>[number];
+
+// Count the current user's hard sets per exercise per workout date in a date
+// range, with the muscles each exercise trains. Warm-ups and sets with
+// nothing logged yet do not count.
+export async function getMuscleVolumeSets(range: { from: string; to: string }) {
+  const user = await getCurrentUser();
+
+  return db
+    .select({
+      date: workouts.date,
+      primaryMuscles: exercises.primaryMuscles,
+      secondaryMuscles: exercises.secondaryMuscles,
+      setCount: count(sets.id),
+    })
+    .from(workouts)
+    .innerJoin(workoutExercises, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(exercises.id, workoutExercises.exerciseId))
+    .innerJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
+    .where(
+      and(
+        eq(workouts.userId, user.id),
+        gte(workouts.date, range.from),
+        lte(workouts.date, range.to),
+        ne(sets.setType, "warmup"),
+        or(
+          isNotNull(sets.reps),
+          isNotNull(sets.durationSeconds),
+          isNotNull(sets.distance)
+        )
+      )
+    )
+    .groupBy(workouts.date, exercises.id);
+}
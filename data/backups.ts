@@ -0,0 +1,612 @@
+import { db } from "@/db";
+import {
+  exerciseAliases,
+  exercises,
+  exerciseRestTimes,
+  muscleVolumeTargets,
+  programs,
+  programSessions,
+  programWeeks,
+  sets,
+  templateExercises,
+  userSettings,
+  workoutExercises,
+  workouts,
+  workoutTemplates,
+} from "@/db/schema";
+import { eq, and, or, inArray, notInArray, asc } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { chunk } from "@/lib/utils";
+import { matchExerciseName } from "@/lib/exercise-matching";
+import { workoutDuplicateKey } from "@/lib/import";
+import { BACKUP_VERSION, type Backup, type RestoreMode } from "@/lib/backup";
+import { getAllExercises } from "@/data/exercises";
+import { importWorkouts } from "@/data/imports";
+import { updateUserSettings } from "@/data/users";
+
+const INSERT_CHUNK_SIZE = 1000;
+
+// Collect everything the current user has logged or configured. Weights are
+// kept in the unit they were stored in so a restore is lossless.
+export async function getBackup(): Promise<Backup> {
+  const user = await getCurrentUser();
+
+  const [settings] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.userId, user.id));
+
+  const [setRows, templateRows, programRows, restTimeRows, volumeTargetRows] =
+    await Promise.all([
+      db
+        .select({
+          workout: workouts,
+          workoutExerciseId: workoutExercises.id,
+          exerciseId: workoutExercises.exerciseId,
+          supersetGroup: workoutExercises.supersetGroup,
+          set: sets,
+        })
+        .from(workouts)
+        .leftJoin(workoutExercises, eq(workoutExercises.workoutId, workouts.id))
+        .leftJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
+        .where(eq(workouts.userId, user.id))
+        .orderBy(
+          workouts.date,
+          workouts.id,
+          workoutExercises.order,
+          workoutExercises.id,
+          sets.setNumber
+        ),
+      db
+        .select({ template: workoutTemplates, templateExercise: templateExercises })
+        .from(workoutTemplates)
+        .leftJoin(
+          templateExercises,
+          eq(templateExercises.templateId, workoutTemplates.id)
+        )
+        .where(eq(workoutTemplates.userId, user.id))
+        .orderBy(workoutTemplates.id, templateExercises.order),
+      db
+        .select()
+        .from(programs)
+        .where(eq(programs.userId, user.id))
+        .orderBy(programs.id),
+      db
+        .select({
+          exerciseId: exerciseRestTimes.exerciseId,
+          restSeconds: exerciseRestTimes.restSeconds,
+        })
+        .from(exerciseRestTimes)
+        .where(eq(exerciseRestTimes.userId, user.id)),
+      db
+        .select({
+          muscle: muscleVolumeTargets.muscle,
+          minSets: muscleVolumeTargets.minSets,
+          maxSets: muscleVolumeTargets.maxSets,
+        })
+        .from(muscleVolumeTargets)
+        .where(eq(muscleVolumeTargets.userId, user.id)),
+    ]);
+
+  const programIds = programRows.map((program) => program.id);
+  const [weekRows, sessionRows] =
+    programIds.length > 0
+      ? await Promise.all([
+          db
+            .select()
+            .from(programWeeks)
+            .where(inArray(programWeeks.programId, programIds))
+            .orderBy(programWeeks.weekNumber),
+          db
+            .select()
+            .from(programSessions)
+            .where(inArray(programSessions.programId, programIds))
+            .orderBy(asc(programSessions.scheduledDate), asc(programSessions.id)),
+        ])
+      : [[], []];
+
+  // Nest sets under their exercises and exercises under their workouts
+  const workoutMap = new Map<number, Backup["workouts"][number]>();
+  const exerciseEntries = new Map<
+    number,
+    Backup["workouts"][number]["exercises"][number]
+  >();
+
+  for (const row of setRows) {
+    if (!workoutMap.has(row.workout.id)) {
+      workoutMap.set(row.workout.id, {
+        id: row.workout.id,
+        name: row.workout.name,
+        date: row.workout.date,
+        notes: row.workout.notes,
+        startedAt: row.workout.startedAt?.toISOString() ?? null,
+        completedAt: row.workout.completedAt?.toISOString() ?? null,
+        exercises: [],
+      });
+    }
+
+    if (row.workoutExerciseId === null || row.exerciseId === null) continue;
+
+    if (!exerciseEntries.has(row.workoutExerciseId)) {
+      const entry = {
+        exerciseId: row.exerciseId,
+        supersetGroup: row.supersetGroup,
+        sets: [],
+      };
+      exerciseEntries.set(row.workoutExerciseId, entry);
+      workoutMap.get(row.workout.id)!.exercises.push(entry);
+    }
+
+    if (row.set) {
+      exerciseEntries.get(row.workoutExerciseId)!.sets.push({
+        setType: row.set.setType,
+        weight: row.set.weight,
+        weightUnit: row.set.weightUnit,
+        reps: row.set.reps,
+        rpe: row.set.rpe,
+        rir: row.set.rir,
+        distance: row.set.distance,
+        durationSeconds: row.set.durationSeconds,
+        completedAt: row.set.completedAt?.toISOString() ?? null,
+        restSeconds: row.set.restSeconds,
+      });
+    }
+  }
+
+  const templateMap = new Map<number, Backup["templates"][number]>();
+  for (const row of templateRows) {
+    if (!templateMap.has(row.template.id)) {
+      templateMap.set(row.template.id, {
+        id: row.template.id,
+        name: row.template.name,
+        notes: row.template.notes,
+        exercises: [],
+      });
+    }
+
+    if (row.templateExercise) {
+      templateMap.get(row.template.id)!.exercises.push({
+        exerciseId: row.templateExercise.exerciseId,
+        targetSets: row.templateExercise.targetSets,
+        targetReps: row.templateExercise.targetReps,
+        targetWeight: row.templateExercise.targetWeight,
+        targetWeightUnit: row.templateExercise.targetWeightUnit,
+      });
+    }
+  }
+
+  const workoutList = Array.from(workoutMap.values());
+  const templateList = Array.from(templateMap.values());
+
+  // The exercises the backup refers to, plus all of the user's own
+  const exerciseIds = [
+    ...new Set([
+      ...workoutList.flatMap((w) => w.exercises.map((e) => e.exerciseId)),
+      ...templateList.flatMap((t) => t.exercises.map((e) => e.exerciseId)),
+      ...restTimeRows.map((restTime) => restTime.exerciseId),
+    ]),
+  ];
+  const exerciseRows = await db
+    .select()
+    .from(exercises)
+    .where(
+      or(
+        eq(exercises.userId, user.id),
+        exerciseIds.length > 0 ? inArray(exercises.id, exerciseIds) : undefined
+      )
+    );
+
+  const customIds = exerciseRows
+    .filter((exercise) => exercise.userId === user.id)
+    .map((exercise) => exercise.id);
+  const aliasRows =
+    customIds.length > 0
+      ? await db
+          .select()
+          .from(exerciseAliases)
+          .where(inArray(exerciseAliases.exerciseId, customIds))
+          .orderBy(exerciseAliases.alias)
+      : [];
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: settings
+      ? {
+          weightUnit: settings.weightUnit,
+          defaultRestSeconds: settings.defaultRestSeconds,
+          weekStartsOn: settings.weekStartsOn,
+          e1rmFormula: settings.e1rmFormula,
+          defaultSetCount: settings.defaultSetCount,
+        }
+      : null,
+    exercises: exerciseRows.map((exercise) => ({
+      id: exercise.id,
+      name: exercise.name,
+      custom:
+        exercise.userId === user.id
+          ? {
+              measurementType: exercise.measurementType,
+              primaryMuscles: exercise.primaryMuscles,
+              secondaryMuscles: exercise.secondaryMuscles,
+              equipment: exercise.equipment,
+              movementPattern: exercise.movementPattern,
+              unilateral: exercise.unilateral,
+              aliases: aliasRows
+                .filter((alias) => alias.exerciseId === exercise.id)
+                .map((alias) => alias.alias),
+            }
+          : null,
+    })),
+    restTimes: restTimeRows,
+    volumeTargets: volumeTargetRows,
+    workouts: workoutList,
+    templates: templateList,
+    programs: programRows.map((program) => ({
+      name: program.name,
+      startDate: program.startDate,
+      weeks: program.weeks,
+      progressionType: program.progressionType,
+      loadUnit: program.loadUnit,
+      notes: program.notes,
+      progressionValues: weekRows
+        .filter((week) => week.programId === program.id)
+        .map((week) => week.progressionValue),
+      sessions: sessionRows
+        .filter((session) => session.programId === program.id)
+        .map((session) => ({
+          templateId: session.templateId,
+          weekNumber: session.weekNumber,
+          scheduledDate: session.scheduledDate,
+          workoutId: session.workoutId,
+        })),
+    })),
+  };
+}
+
+// Get the ids of everything a restore can add or remove
+async function getUserDataIds(userId: string) {
+  const [workoutRows, templateRows, programRows] = await Promise.all([
+    db
+      .select({ id: workouts.id })
+      .from(workouts)
+      .where(eq(workouts.userId, userId)),
+    db
+      .select({ id: workoutTemplates.id })
+      .from(workoutTemplates)
+      .where(eq(workoutTemplates.userId, userId)),
+    db
+      .select({ id: programs.id })
+      .from(programs)
+      .where(eq(programs.userId, userId)),
+  ]);
+
+  return {
+    workoutIds: workoutRows.map((row) => row.id),
+    templateIds: templateRows.map((row) => row.id),
+    programIds: programRows.map((row) => row.id),
+  };
+}
+
+// Delete the user's workouts, templates and programs, keeping the given ids.
+// Children are removed by the cascading foreign keys.
+async function deleteUserDataExcept(
+  userId: string,
+  keep: { workoutIds: number[]; templateIds: number[]; programIds: number[] }
+) {
+  await db
+    .delete(programs)
+    .where(
+      and(
+        eq(programs.userId, userId),
+        keep.programIds.length > 0
+          ? notInArray(programs.id, keep.programIds)
+          : undefined
+      )
+    );
+  await db
+    .delete(workoutTemplates)
+    .where(
+      and(
+        eq(workoutTemplates.userId, userId),
+        keep.templateIds.length > 0
+          ? notInArray(workoutTemplates.id, keep.templateIds)
+          : undefined
+      )
+    );
+  await db
+    .delete(workouts)
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        keep.workoutIds.length > 0
+          ? notInArray(workouts.id, keep.workoutIds)
+          : undefined
+      )
+    );
+}
+
+// A program counts as already restored when one with the same name starts
+// on the same day
+function programDuplicateKey(program: { name: string; startDate: string }) {
+  return `${program.startDate}|${program.name}`;
+}
+
+// Restore a backup for the current user. Every record gets a fresh id and
+// references between records are remapped, so the database sequences are
+// never touched. Merging skips workouts that already exist (same date and
+// name) and programs with the same name and start date, and reuses templates
+// with the same name; replacing removes the old log only once the new one
+// has been written.
+export async function restoreBackup(backup: Backup, mode: RestoreMode) {
+  const user = await getCurrentUser();
+
+  const library = await getAllExercises();
+  const exerciseIdMap = new Map<number, number>();
+  for (const exercise of backup.exercises) {
+    const match = matchExerciseName(exercise.name, library);
+    if (match) exerciseIdMap.set(exercise.id, match.id);
+  }
+
+  // Snapshot of the log before the restore, used to roll back on failure
+  const previous = await getUserDataIds(user.id);
+
+  const [existingWorkouts, existingTemplates, existingPrograms] =
+    mode === "merge"
+      ? await Promise.all([
+          db
+            .select({ date: workouts.date, name: workouts.name })
+            .from(workouts)
+            .where(eq(workouts.userId, user.id)),
+          db
+            .select({ id: workoutTemplates.id, name: workoutTemplates.name })
+            .from(workoutTemplates)
+            .where(eq(workoutTemplates.userId, user.id)),
+          db
+            .select({ name: programs.name, startDate: programs.startDate })
+            .from(programs)
+            .where(eq(programs.userId, user.id)),
+        ])
+      : [[], [], []];
+
+  const existingWorkoutKeys = new Set(existingWorkouts.map(workoutDuplicateKey));
+  const existingTemplateIds = new Map(
+    existingTemplates.map((template) => [template.name, template.id])
+  );
+  const existingProgramKeys = new Set(existingPrograms.map(programDuplicateKey));
+
+  const created = {
+    exerciseIds: [] as number[],
+    workoutIds: [] as number[],
+    templateIds: [] as number[],
+    programIds: [] as number[],
+  };
+
+  try {
+    // Custom exercises this account doesn't have yet are recreated before
+    // anything that refers to them
+    const missingExercises = backup.exercises.filter(
+      (exercise) => exercise.custom && !exerciseIdMap.has(exercise.id)
+    );
+
+    for (const batch of chunk(missingExercises, INSERT_CHUNK_SIZE)) {
+      const rows = await db
+        .insert(exercises)
+        .values(
+          batch.map((exercise) => ({
+            userId: user.id,
+            name: exercise.name,
+            measurementType: exercise.custom!.measurementType,
+            primaryMuscles: exercise.custom!.primaryMuscles,
+            secondaryMuscles: exercise.custom!.secondaryMuscles,
+            equipment: exercise.custom!.equipment,
+            movementPattern: exercise.custom!.movementPattern,
+            unilateral: exercise.custom!.unilateral,
+          }))
+        )
+        .returning({ id: exercises.id });
+
+      batch.forEach((exercise, index) => {
+        exerciseIdMap.set(exercise.id, rows[index].id);
+        created.exerciseIds.push(rows[index].id);
+      });
+
+      const aliasRows = batch.flatMap((exercise, index) =>
+        exercise.custom!.aliases.map((alias) => ({
+          exerciseId: rows[index].id,
+          alias,
+        }))
+      );
+      if (aliasRows.length > 0) {
+        await db.insert(exerciseAliases).values(aliasRows).onConflictDoNothing();
+      }
+    }
+
+    // Templates first, since program sessions point at them
+    const templateIdMap = new Map<number, number>();
+    const newTemplates = backup.templates.filter((template) => {
+      const existingId = existingTemplateIds.get(template.name);
+      if (existingId) templateIdMap.set(template.id, existingId);
+      return !existingId;
+    });
+
+    for (const batch of chunk(newTemplates, INSERT_CHUNK_SIZE)) {
+      const rows = await db
+        .insert(workoutTemplates)
+        .values(
+          batch.map((template) => ({
+            userId: user.id,
+            name: template.name,
+            notes: template.notes,
+          }))
+        )
+        .returning({ id: workoutTemplates.id });
+
+      batch.forEach((template, index) => {
+        templateIdMap.set(template.id, rows[index].id);
+        created.templateIds.push(rows[index].id);
+      });
+
+      const exerciseRows = batch.flatMap((template) =>
+        template.exercises
+          .filter((exercise) => exerciseIdMap.has(exercise.exerciseId))
+          .map((exercise, order) => ({
+            ...exercise,
+            templateId: templateIdMap.get(template.id)!,
+            exerciseId: exerciseIdMap.get(exercise.exerciseId)!,
+            order,
+          }))
+      );
+
+      for (const exerciseBatch of chunk(exerciseRows, INSERT_CHUNK_SIZE)) {
+        await db.insert(templateExercises).values(exerciseBatch);
+      }
+    }
+
+    const newWorkouts = backup.workouts.filter(
+      (workout) => !existingWorkoutKeys.has(workoutDuplicateKey(workout))
+    );
+
+    const { workoutIds } = await importWorkouts(
+      newWorkouts.map((workout) => ({
+        date: workout.date,
+        name: workout.name,
+        notes: workout.notes,
+        startedAt: workout.startedAt ? new Date(workout.startedAt) : null,
+        completedAt: workout.completedAt ? new Date(workout.completedAt) : null,
+        exercises: workout.exercises
+          .filter((exercise) => exerciseIdMap.has(exercise.exerciseId))
+          .map((exercise) => ({
+            exerciseId: exerciseIdMap.get(exercise.exerciseId)!,
+            supersetGroup: exercise.supersetGroup,
+            sets: exercise.sets.map((set) => ({
+              ...set,
+              completedAt: set.completedAt ? new Date(set.completedAt) : null,
+            })),
+          })),
+      }))
+    );
+    created.workoutIds = workoutIds;
+
+    const workoutIdMap = new Map(
+      newWorkouts.map((workout, index) => [workout.id, workoutIds[index]])
+    );
+
+    const newPrograms = backup.programs.filter(
+      (program) => !existingProgramKeys.has(programDuplicateKey(program))
+    );
+
+    for (const program of newPrograms) {
+      const sessions = program.sessions.filter((session) =>
+        templateIdMap.has(session.templateId)
+      );
+
+      const [row] = await db
+        .insert(programs)
+        .values({
+          userId: user.id,
+          name: program.name,
+          startDate: program.startDate,
+          weeks: program.weeks,
+          progressionType: program.progressionType,
+          loadUnit: program.loadUnit,
+          notes: program.notes,
+        })
+        .returning({ id: programs.id });
+      created.programIds.push(row.id);
+
+      if (program.progressionValues.length > 0) {
+        await db.insert(programWeeks).values(
+          program.progressionValues.map((progressionValue, index) => ({
+            programId: row.id,
+            weekNumber: index + 1,
+            progressionValue,
+          }))
+        );
+      }
+
+      if (sessions.length > 0) {
+        await db.insert(programSessions).values(
+          sessions.map((session) => ({
+            programId: row.id,
+            templateId: templateIdMap.get(session.templateId)!,
+            weekNumber: session.weekNumber,
+            scheduledDate: session.scheduledDate,
+            workoutId:
+              session.workoutId !== null
+                ? (workoutIdMap.get(session.workoutId) ?? null)
+                : null,
+          }))
+        );
+      }
+    }
+  } catch (error) {
+    // Without transactions, undo a partial restore by removing what was added
+    await deleteUserDataExcept(user.id, previous).catch(() => undefined);
+    if (created.exerciseIds.length > 0) {
+      await db
+        .delete(exercises)
+        .where(inArray(exercises.id, created.exerciseIds))
+        .catch(() => undefined);
+    }
+    throw error;
+  }
+
+  if (mode === "replace") {
+    await deleteUserDataExcept(user.id, created);
+    if (backup.settings) {
+      await updateUserSettings(backup.settings);
+    }
+  }
+
+  // Rest times are preferences, so a merge keeps the ones already set
+  if (mode === "replace") {
+    await db
+      .delete(exerciseRestTimes)
+      .where(eq(exerciseRestTimes.userId, user.id));
+  }
+
+  const restTimes = backup.restTimes.filter((restTime) =>
+    exerciseIdMap.has(restTime.exerciseId)
+  );
+  if (restTimes.length > 0) {
+    await db
+      .insert(exerciseRestTimes)
+      .values(
+        restTimes.map((restTime) => ({
+          userId: user.id,
+          exerciseId: exerciseIdMap.get(restTime.exerciseId)!,
+          restSeconds: restTime.restSeconds,
+        }))
+      )
+      .onConflictDoNothing();
+  }
+
+  // Volume targets are preferences too
+  if (mode === "replace") {
+    await db
+      .delete(muscleVolumeTargets)
+      .where(eq(muscleVolumeTargets.userId, user.id));
+  }
+
+  if (backup.volumeTargets.length > 0) {
+    await db
+      .insert(muscleVolumeTargets)
+      .values(
+        backup.volumeTargets.map((target) => ({ ...target, userId: user.id }))
+      )
+      .onConflictDoNothing();
+  }
+
+  const unmatchedExercises = backup.exercises
+    .filter((exercise) => !exerciseIdMap.has(exercise.id))
+    .map((exercise) => exercise.name);
+
+  return {
+    workoutCount: created.workoutIds.length,
+    templateCount: created.templateIds.length,
+    programCount: created.programIds.length,
+    skippedWorkouts: backup.workouts.length - created.workoutIds.length,
+    unmatchedExercises,
+  };
+}
@@ -1,18 +1,178 @@
-import { db } from "@/db";
-import { exercises, workoutExercises, sets, workouts } from "@/db/schema";
-import { eq, and, inArray } from "drizzle-orm";
+import { db, isUniqueViolation } from "@/db";
+import {
+  exercises,
+  exerciseAliases,
+  exerciseRestTimes,
+  workoutExercises,
+  sets,
+  workouts,
+} from "@/db/schema";
+import {
+  eq,
+  and,
+  inArray,
+  ne,
+  isNotNull,
+  isNull,
+  or,
+  desc,
+  count,
+  max,
+  sql,
+} from "drizzle-orm";
 import { getCurrentUser } from "@/lib/auth";
+import { getUserSettings } from "@/data/users";
+import type { SetType } from "@/lib/sets";
+import type { MeasurementType } from "@/lib/measurements";
+import type {
+  Equipment,
+  MovementPattern,
+  MuscleGroup,
+} from "@/lib/exercise-metadata";
+import type { WeightUnit } from "@/lib/units";
+import { regroupSupersets } from "@/lib/supersets";
 
-// Get all available exercises (shared library, no user filter needed)
+// Condition for the exercises a user can see and log: the shared library
+// plus their own custom exercises
+export function visibleExercises(userId: string) {
+  return or(isNull(exercises.userId), eq(exercises.userId, userId));
+}
+
+// Get every exercise available to the current user, shared and custom,
+// with the other names each one goes by
 export async function getAllExercises() {
-  return db.select().from(exercises).orderBy(exercises.name);
+  const user = await getCurrentUser();
+
+  const [rows, aliases] = await Promise.all([
+    db
+      .select()
+      .from(exercises)
+      .where(visibleExercises(user.id))
+      .orderBy(exercises.name),
+    db
+      .select({
+        exerciseId: exerciseAliases.exerciseId,
+        alias: exerciseAliases.alias,
+      })
+      .from(exerciseAliases)
+      .innerJoin(exercises, eq(exercises.id, exerciseAliases.exerciseId))
+      .where(visibleExercises(user.id))
+      .orderBy(exerciseAliases.alias),
+  ]);
+
+  const aliasesByExercise = new Map<number, string[]>();
+  for (const { exerciseId, alias } of aliases) {
+    aliasesByExercise.set(exerciseId, [
+      ...(aliasesByExercise.get(exerciseId) ?? []),
+      alias,
+    ]);
+  }
+
+  return rows.map((exercise) => ({
+    ...exercise,
+    aliases: aliasesByExercise.get(exercise.id) ?? [],
+  }));
+}
+
+// Get a single exercise the current user can see
+export async function getExerciseById(exerciseId: number) {
+  const user = await getCurrentUser();
+
+  const [exercise] = await db
+    .select()
+    .from(exercises)
+    .where(and(eq(exercises.id, exerciseId), visibleExercises(user.id)));
+
+  return exercise;
+}
+
+// Thrown when a custom exercise would repeat a name the user can already see
+export class DuplicateExerciseNameError extends Error {
+  constructor(name: string) {
+    super(`An exercise called "${name}" already exists`);
+    this.name = "DuplicateExerciseNameError";
+  }
+}
+
+// Create a custom exercise owned by the current user. Names may not repeat
+// one the user can already see, ignoring case.
+export async function createCustomExercise(data: {
+  name: string;
+  measurementType: MeasurementType;
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+  equipment: Equipment | null;
+  movementPattern: MovementPattern | null;
+  unilateral: boolean;
+}) {
+  const user = await getCurrentUser();
+
+  const [existing] = await db
+    .select({ id: exercises.id })
+    .from(exercises)
+    .where(
+      and(
+        visibleExercises(user.id),
+        eq(sql`lower(${exercises.name})`, data.name.toLowerCase())
+      )
+    )
+    .limit(1);
+
+  if (existing) {
+    throw new DuplicateExerciseNameError(data.name);
+  }
+
+  try {
+    const [exercise] = await db
+      .insert(exercises)
+      .values({ ...data, userId: user.id })
+      .returning();
+
+    return exercise;
+  } catch (error) {
+    // Another request created the same name since the check above
+    if (isUniqueViolation(error, "exercises_user_name_unique")) {
+      throw new DuplicateExerciseNameError(data.name);
+    }
+    throw error;
+  }
+}
+
+// The exercises the current user logs most recently and most often, for the
+// top of the exercise picker. Frequent exercises leave out the recent ones
+// so each exercise shows up once.
+export async function getExerciseUsage(limit = 5) {
+  const user = await getCurrentUser();
+
+  const usage = await db
+    .select({
+      exerciseId: workoutExercises.exerciseId,
+      timesUsed: count(workoutExercises.id),
+      lastUsed: max(workouts.date),
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(eq(workouts.userId, user.id))
+    .groupBy(workoutExercises.exerciseId);
+
+  const recentIds = [...usage]
+    .sort((a, b) => (b.lastUsed ?? "").localeCompare(a.lastUsed ?? ""))
+    .slice(0, limit)
+    .map((row) => row.exerciseId);
+
+  const frequentIds = usage
+    .filter((row) => !recentIds.includes(row.exerciseId))
+    .sort((a, b) => b.timesUsed - a.timesUsed)
+    .slice(0, limit)
+    .map((row) => row.exerciseId);
+
+  return { recentIds, frequentIds };
 }
 
-// Add exercise to workout
+// Add an exercise to the end of a workout
 export async function addExerciseToWorkout(data: {
   workoutId: number;
   exerciseId: number;
-  order: number;
 }) {
   const user = await getCurrentUser();
 
@@ -27,22 +187,56 @@ export async function addExerciseToWorkout(data: {
     throw new Error("Workout not found");
   }
 
-  // Verify exercise exists
+  // Verify the exercise is shared or the user's own
   const [exercise] = await db
     .select()
     .from(exercises)
-    .where(eq(exercises.id, data.exerciseId))
+    .where(and(eq(exercises.id, data.exerciseId), visibleExercises(user.id)))
     .limit(1);
 
   if (!exercise) {
     throw new Error(`Exercise with ID ${data.exerciseId} not found`);
   }
 
+  const [{ lastOrder }] = await db
+    .select({ lastOrder: max(workoutExercises.order) })
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, data.workoutId));
+
+  const { weightUnit, defaultSetCount } = await getUserSettings();
+
+  const order = (lastOrder ?? -1) + 1;
+
+  // Start the exercise with the user's default number of empty sets, in the
+  // same transaction. The sets find the new row by its position.
+  const workoutExerciseId = sql<number>`${db
+    .select({ id: workoutExercises.id })
+    .from(workoutExercises)
+    .where(
+      and(
+        eq(workoutExercises.workoutId, data.workoutId),
+        eq(workoutExercises.order, order)
+      )
+    )}`;
+
   try {
-    const [workoutExercise] = await db
-      .insert(workoutExercises)
-      .values(data)
-      .returning();
+    const [[workoutExercise]] = await db.batch([
+      db
+        .insert(workoutExercises)
+        .values({ ...data, order })
+        .returning(),
+      ...(defaultSetCount > 0
+        ? [
+            db.insert(sets).values(
+              Array.from({ length: defaultSetCount }, (_, index) => ({
+                workoutExerciseId,
+                setNumber: index + 1,
+                weightUnit,
+              }))
+            ),
+          ]
+        : []),
+    ]);
 
     return workoutExercise;
   } catch (error) {
@@ -52,6 +246,77 @@ export async function addExerciseToWorkout(data: {
   }
 }
 
+// Append exercises with their sets already filled in, as typed into the
+// quick log. Weights without a unit are in the user's preferred unit.
+export async function addLoggedExercisesToWorkout(
+  workoutId: number,
+  entries: {
+    exerciseId: number;
+    sets: {
+      weight: string | null;
+      weightUnit: WeightUnit | null;
+      reps: number;
+    }[];
+  }[]
+) {
+  const user = await getCurrentUser();
+
+  const [workout] = await db
+    .select({ id: workouts.id })
+    .from(workouts)
+    .where(and(eq(workouts.id, workoutId), eq(workouts.userId, user.id)))
+    .limit(1);
+
+  if (!workout) {
+    throw new Error("Workout not found");
+  }
+
+  const exerciseIds = [...new Set(entries.map((entry) => entry.exerciseId))];
+  const visible = await db
+    .select({ id: exercises.id })
+    .from(exercises)
+    .where(and(inArray(exercises.id, exerciseIds), visibleExercises(user.id)));
+
+  if (visible.length !== exerciseIds.length) {
+    throw new Error("Exercise not found");
+  }
+
+  const [{ lastOrder }] = await db
+    .select({ lastOrder: max(workoutExercises.order) })
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutId));
+  const firstOrder = (lastOrder ?? -1) + 1;
+
+  const { weightUnit } = await getUserSettings();
+
+  const created = await db
+    .insert(workoutExercises)
+    .values(
+      entries.map((entry, index) => ({
+        workoutId,
+        exerciseId: entry.exerciseId,
+        order: firstOrder + index,
+      }))
+    )
+    .returning({ id: workoutExercises.id, order: workoutExercises.order });
+
+  const idByOrder = new Map(created.map((row) => [row.order, row.id]));
+
+  await db.insert(sets).values(
+    entries.flatMap((entry, index) =>
+      entry.sets.map((set, setIndex) => ({
+        workoutExerciseId: idByOrder.get(firstOrder + index)!,
+        setNumber: setIndex + 1,
+        weight: set.weight,
+        weightUnit: set.weightUnit ?? weightUnit,
+        reps: set.reps,
+      }))
+    )
+  );
+
+  return created.map((row) => row.id);
+}
+
 // Remove exercise from workout
 export async function removeExerciseFromWorkout(workoutExerciseId: number) {
   const user = await getCurrentUser();
@@ -72,12 +337,208 @@ export async function removeExerciseFromWorkout(workoutExerciseId: number) {
     );
 }
 
-// Create a set
+// Whether two lists hold the same ids, ignoring order
+function hasSameIds(a: number[], b: number[]) {
+  const ids = new Set(a);
+  return (
+    a.length === b.length &&
+    ids.size === b.length &&
+    b.every((id) => ids.has(id))
+  );
+}
+
+// Put a workout's exercises in the given order. The ids must be exactly the
+// workout's exercises, and every order value is rewritten in one transaction
+// along with any superset groups the move broke up.
+export async function reorderWorkoutExercises(
+  workoutId: number,
+  workoutExerciseIds: number[]
+) {
+  const user = await getCurrentUser();
+
+  const current = await db
+    .select({
+      id: workoutExercises.id,
+      supersetGroup: workoutExercises.supersetGroup,
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(
+      and(eq(workoutExercises.workoutId, workoutId), eq(workouts.userId, user.id))
+    );
+
+  if (!hasSameIds(current.map((row) => row.id), workoutExerciseIds)) {
+    throw new Error("The exercise list has changed. Reload and try again.");
+  }
+
+  const byId = new Map(current.map((row) => [row.id, row]));
+  const supersetGroups = regroupSupersets(
+    workoutExerciseIds.map((id) => byId.get(id)!)
+  );
+
+  const [first, ...rest] = workoutExerciseIds.map((id, order) =>
+    db
+      .update(workoutExercises)
+      .set({ order, supersetGroup: supersetGroups.get(id) ?? null })
+      .where(eq(workoutExercises.id, id))
+  );
+  if (first) {
+    await db.batch([first, ...rest]);
+  }
+}
+
+// Get every exercise in the workout a workout exercise belongs to, in order,
+// if it belongs to the current user
+async function getSiblingWorkoutExercises(workoutExerciseId: number) {
+  const user = await getCurrentUser();
+
+  const [workoutExercise] = await db
+    .select({ workoutId: workoutExercises.workoutId })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(
+      and(
+        eq(workoutExercises.id, workoutExerciseId),
+        eq(workouts.userId, user.id)
+      )
+    )
+    .limit(1);
+
+  if (!workoutExercise) {
+    throw new Error("Workout exercise not found");
+  }
+
+  return db
+    .select({
+      id: workoutExercises.id,
+      supersetGroup: workoutExercises.supersetGroup,
+    })
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutExercise.workoutId))
+    .orderBy(workoutExercises.order, workoutExercises.id);
+}
+
+// Group an exercise with the one after it. Joining an existing superset adds
+// to it, so linking the last exercise of a superset builds a circuit.
+export async function groupWithNextExercise(workoutExerciseId: number) {
+  const siblings = await getSiblingWorkoutExercises(workoutExerciseId);
+
+  const index = siblings.findIndex((e) => e.id === workoutExerciseId);
+  const current = siblings[index];
+  const next = siblings[index + 1];
+
+  if (!next) {
+    throw new Error("There is no exercise after this one to group with");
+  }
+
+  const group =
+    current.supersetGroup ??
+    next.supersetGroup ??
+    Math.max(0, ...siblings.map((e) => e.supersetGroup ?? 0)) + 1;
+
+  // Pull in the whole of the next exercise's group, not just the exercise
+  const memberIds = [current.id, next.id];
+  if (next.supersetGroup !== null && next.supersetGroup !== group) {
+    for (const sibling of siblings.slice(index + 2)) {
+      if (sibling.supersetGroup !== next.supersetGroup) break;
+      memberIds.push(sibling.id);
+    }
+  }
+
+  await db
+    .update(workoutExercises)
+    .set({ supersetGroup: group })
+    .where(inArray(workoutExercises.id, memberIds));
+}
+
+// Take an exercise out of its superset. Exercises left on either side stay
+// grouped with their neighbours.
+export async function ungroupExercise(workoutExerciseId: number) {
+  const siblings = await getSiblingWorkoutExercises(workoutExerciseId);
+
+  const index = siblings.findIndex((e) => e.id === workoutExerciseId);
+  const group = siblings[index].supersetGroup;
+
+  if (group === null) return;
+
+  // Exercises after this one become their own group so the two halves are
+  // not joined back up if the gap is later closed
+  const trailingIds: number[] = [];
+  for (const sibling of siblings.slice(index + 1)) {
+    if (sibling.supersetGroup !== group) break;
+    trailingIds.push(sibling.id);
+  }
+
+  await db
+    .update(workoutExercises)
+    .set({ supersetGroup: null })
+    .where(eq(workoutExercises.id, workoutExerciseId));
+
+  if (trailingIds.length > 0) {
+    const highest = Math.max(0, ...siblings.map((e) => e.supersetGroup ?? 0));
+    await db
+      .update(workoutExercises)
+      .set({ supersetGroup: highest + 1 })
+      .where(inArray(workoutExercises.id, trailingIds));
+  }
+}
+
+// Get the measurement type of the exercise behind a workout exercise or an
+// existing set, or null if it does not belong to the current user
+export async function getMeasurementType(
+  target: { workoutExerciseId: number } | { setId: number }
+): Promise<MeasurementType | null> {
+  const user = await getCurrentUser();
+
+  const workoutExerciseIds =
+    "setId" in target
+      ? db
+          .select({ id: sets.workoutExerciseId })
+          .from(sets)
+          .where(eq(sets.id, target.setId))
+      : [target.workoutExerciseId];
+
+  const [row] = await db
+    .select({ measurementType: exercises.measurementType })
+    .from(workoutExercises)
+    .innerJoin(exercises, eq(exercises.id, workoutExercises.exerciseId))
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(
+      and(
+        inArray(workoutExercises.id, workoutExerciseIds),
+        eq(workouts.userId, user.id)
+      )
+    )
+    .limit(1);
+
+  return row?.measurementType ?? null;
+}
+
+// Statements that number an exercise's sets 1, 2, 3... in the given order.
+// Numbers are flipped negative first so two sets never briefly share a number
+// and trip the unique constraint part way through.
+function renumberSets(workoutExerciseId: number, setIds: number[]) {
+  return [
+    db
+      .update(sets)
+      .set({ setNumber: sql`-${sets.setNumber}` })
+      .where(eq(sets.workoutExerciseId, workoutExerciseId)),
+    ...setIds.map((id, index) =>
+      db.update(sets).set({ setNumber: index + 1 }).where(eq(sets.id, id))
+    ),
+  ] as const;
+}
+
+// Create a set, numbered after the exercise's existing sets
 export async function createSet(data: {
   workoutExerciseId: number;
-  setNumber: number;
+  setType?: SetType;
   weight: string | null;
   reps: number | null;
+  rpe?: number | null;
+  rir?: number | null;
+  distance?: number | null;
+  durationSeconds?: number | null;
 }) {
   const user = await getCurrentUser();
 
@@ -108,15 +569,45 @@ export async function createSet(data: {
     throw new Error("Workout exercise not found");
   }
 
-  const [set] = await db.insert(sets).values(data).returning();
+  // Weights are entered in the user's preferred unit
+  const { weightUnit } = await getUserSettings();
 
-  return set;
+  const insertSet = () =>
+    db
+      .insert(sets)
+      .values({
+        ...data,
+        setNumber: sql`(select coalesce(max(${sets.setNumber}), 0) + 1 from ${sets} where ${sets.workoutExerciseId} = ${data.workoutExerciseId})`,
+        weightUnit,
+      })
+      .returning();
+
+  // Two quick adds can pick the same number. The one that loses tries once
+  // more, numbered after the set that won.
+  try {
+    const [set] = await insertSet();
+    return set;
+  } catch (error) {
+    if (!isUniqueViolation(error, "sets_workout_exercise_set_number_unique")) {
+      throw error;
+    }
+    const [set] = await insertSet();
+    return set;
+  }
 }
 
 // Update a set
 export async function updateSet(
   setId: number,
-  data: { weight?: string | null; reps?: number | null }
+  data: {
+    setType?: SetType;
+    weight?: string | null;
+    reps?: number | null;
+    rpe?: number | null;
+    rir?: number | null;
+    distance?: number | null;
+    durationSeconds?: number | null;
+  }
 ) {
   const user = await getCurrentUser();
 
@@ -131,9 +622,11 @@ export async function updateSet(
     .from(workoutExercises)
     .where(inArray(workoutExercises.workoutId, userWorkoutIds));
 
+  const { weightUnit } = await getUserSettings();
+
   const [updated] = await db
     .update(sets)
-    .set(data)
+    .set(data.weight !== undefined ? { ...data, weightUnit } : data)
     .where(
       and(
         eq(sets.id, setId),
@@ -145,24 +638,165 @@ export async function updateSet(
   return updated;
 }
 
-// Delete a set
+// Delete a set and renumber the ones after it to close the gap, all in one
+// transaction
 export async function deleteSet(setId: number) {
   const user = await getCurrentUser();
 
-  // Verify ownership through joins
-  const userWorkoutIds = db
-    .select({ id: workouts.id })
-    .from(workouts)
-    .where(eq(workouts.userId, user.id));
+  const [set] = await db
+    .select({ id: sets.id, workoutExerciseId: sets.workoutExerciseId })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(workoutExercises.id, sets.workoutExerciseId))
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(and(eq(sets.id, setId), eq(workouts.userId, user.id)))
+    .limit(1);
 
-  const userWorkoutExerciseIds = db
-    .select({ id: workoutExercises.id })
-    .from(workoutExercises)
-    .where(inArray(workoutExercises.workoutId, userWorkoutIds));
+  if (!set) return;
 
-  await db
-    .delete(sets)
+  const remaining = await db
+    .select({ id: sets.id })
+    .from(sets)
+    .where(
+      and(eq(sets.workoutExerciseId, set.workoutExerciseId), ne(sets.id, set.id))
+    )
+    .orderBy(sets.setNumber, sets.id);
+
+  await db.batch([
+    db.delete(sets).where(eq(sets.id, set.id)),
+    ...renumberSets(
+      set.workoutExerciseId,
+      remaining.map((row) => row.id)
+    ),
+  ]);
+}
+
+// Put an exercise's sets in the given order, renumbering them from 1 in one
+// transaction. The ids must be exactly the exercise's sets.
+export async function reorderSets(workoutExerciseId: number, setIds: number[]) {
+  const user = await getCurrentUser();
+
+  const current = await db
+    .select({ id: sets.id })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(workoutExercises.id, sets.workoutExerciseId))
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
     .where(
-      and(eq(sets.id, setId), inArray(sets.workoutExerciseId, userWorkoutExerciseIds))
+      and(
+        eq(sets.workoutExerciseId, workoutExerciseId),
+        eq(workouts.userId, user.id)
+      )
     );
+
+  if (!hasSameIds(current.map((row) => row.id), setIds)) {
+    throw new Error("The set list has changed. Reload and try again.");
+  }
+
+  await db.batch(renumberSets(workoutExerciseId, setIds));
+}
+
+// Mark a set as done or not done. Completing a set records the rest taken
+// since the previous set completed in the same workout.
+export async function completeSet(setId: number, completed: boolean) {
+  const user = await getCurrentUser();
+
+  const [set] = await db
+    .select({ id: sets.id, workoutId: workoutExercises.workoutId })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(workoutExercises.id, sets.workoutExerciseId))
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(and(eq(sets.id, setId), eq(workouts.userId, user.id)))
+    .limit(1);
+
+  if (!set) {
+    throw new Error("Set not found");
+  }
+
+  if (!completed) {
+    const [updated] = await db
+      .update(sets)
+      .set({ completedAt: null, restSeconds: null })
+      .where(eq(sets.id, set.id))
+      .returning();
+
+    return updated;
+  }
+
+  const [previous] = await db
+    .select({ completedAt: sets.completedAt })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(workoutExercises.id, sets.workoutExerciseId))
+    .where(
+      and(
+        eq(workoutExercises.workoutId, set.workoutId),
+        ne(sets.id, set.id),
+        isNotNull(sets.completedAt)
+      )
+    )
+    .orderBy(desc(sets.completedAt))
+    .limit(1);
+
+  const completedAt = new Date();
+  const restSeconds = previous?.completedAt
+    ? Math.round((completedAt.getTime() - previous.completedAt.getTime()) / 1000)
+    : null;
+
+  const [updated] = await db
+    .update(sets)
+    .set({ completedAt, restSeconds })
+    .where(eq(sets.id, set.id))
+    .returning();
+
+  return updated;
+}
+
+// Get the user's rest time for each exercise, falling back to their default
+export async function getExerciseRestTimes(exerciseIds: number[]) {
+  const user = await getCurrentUser();
+  const { defaultRestSeconds } = await getUserSettings();
+
+  const rows =
+    exerciseIds.length > 0
+      ? await db
+          .select()
+          .from(exerciseRestTimes)
+          .where(
+            and(
+              eq(exerciseRestTimes.userId, user.id),
+              inArray(exerciseRestTimes.exerciseId, exerciseIds)
+            )
+          )
+      : [];
+
+  const restTimes: Record<number, number> = {};
+  for (const exerciseId of exerciseIds) {
+    restTimes[exerciseId] =
+      rows.find((row) => row.exerciseId === exerciseId)?.restSeconds ??
+      defaultRestSeconds;
+  }
+
+  return restTimes;
+}
+
+// Save the user's rest time for an exercise
+export async function setExerciseRestTime(
+  exerciseId: number,
+  restSeconds: number
+) {
+  const user = await getCurrentUser();
+
+  const exercise = await getExerciseById(exerciseId);
+  if (!exercise) {
+    throw new Error(`Exercise with ID ${exerciseId} not found`);
+  }
+
+  const [restTime] = await db
+    .insert(exerciseRestTimes)
+    .values({ userId: user.id, exerciseId, restSeconds })
+    .onConflictDoUpdate({
+      target: [exerciseRestTimes.userId, exerciseRestTimes.exerciseId],
+      set: { restSeconds, updatedAt: new Date() },
+    })
+    .returning();
+
+  return restTime;
 }
@@ -0,0 +1,141 @@
+import { db } from "@/db";
+import { workouts, workoutExercises, sets } from "@/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { chunk } from "@/lib/utils";
+import { workoutDuplicateKey, type ImportedSet } from "@/lib/import";
+
+// Rows per insert statement, keeping well under Postgres' parameter limit
+const INSERT_CHUNK_SIZE = 1000;
+
+// Get duplicate keys for the user's workouts on any of the given dates
+export async function getExistingWorkoutKeys(dates: string[]) {
+  const user = await getCurrentUser();
+
+  if (dates.length === 0) {
+    return new Set<string>();
+  }
+
+  const rows = await db
+    .select({ date: workouts.date, name: workouts.name })
+    .from(workouts)
+    .where(
+      and(eq(workouts.userId, user.id), inArray(workouts.date, [...new Set(dates)]))
+    );
+
+  return new Set(rows.map(workoutDuplicateKey));
+}
+
+// Bulk create workouts with their exercises and sets for the current user.
+// Exercise ids must already be resolved against the exercise library. If any
+// insert fails, the workouts created so far are deleted again.
+export async function importWorkouts(
+  data: {
+    date: string;
+    name: string | null;
+    notes: string | null;
+    startedAt?: Date | null;
+    completedAt?: Date | null;
+    exercises: {
+      exerciseId: number;
+      supersetGroup?: number | null;
+      sets: (ImportedSet & {
+        rir?: number | null;
+        distance?: number | null;
+        durationSeconds?: number | null;
+        completedAt?: Date | null;
+        restSeconds?: number | null;
+      })[];
+    }[];
+  }[]
+) {
+  const user = await getCurrentUser();
+
+  const workoutIds: number[] = [];
+  let setCount = 0;
+
+  try {
+    for (const batch of chunk(data, INSERT_CHUNK_SIZE)) {
+      // Postgres returns inserted rows in VALUES order, which lets the children
+      // be matched back to their parents without a lookup
+      const createdWorkouts = await db
+        .insert(workouts)
+        .values(
+          batch.map((workout) => ({
+            userId: user.id,
+            date: workout.date,
+            name: workout.name,
+            notes: workout.notes,
+            startedAt: workout.startedAt,
+            completedAt: workout.completedAt,
+          }))
+        )
+        .returning({ id: workouts.id });
+      workoutIds.push(...createdWorkouts.map((workout) => workout.id));
+
+      const exerciseRows = batch.flatMap((workout, workoutIndex) =>
+        workout.exercises.map((exercise, order) => ({
+          workoutId: createdWorkouts[workoutIndex].id,
+          exerciseId: exercise.exerciseId,
+          supersetGroup: exercise.supersetGroup,
+          order,
+          sets: exercise.sets,
+        }))
+      );
+
+      for (const exerciseBatch of chunk(exerciseRows, INSERT_CHUNK_SIZE)) {
+        const createdExercises = await db
+          .insert(workoutExercises)
+          .values(
+            exerciseBatch.map(
+              ({ workoutId, exerciseId, supersetGroup, order }) => ({
+                workoutId,
+                exerciseId,
+                supersetGroup,
+                order,
+              })
+            )
+          )
+          .returning({ id: workoutExercises.id });
+
+        const setRows = exerciseBatch.flatMap((exercise, exerciseIndex) =>
+          exercise.sets.map((set, setIndex) => ({
+            workoutExerciseId: createdExercises[exerciseIndex].id,
+            setNumber: setIndex + 1,
+            setType: set.setType,
+            weight: set.weight,
+            weightUnit: set.weightUnit,
+            reps: set.reps,
+            rpe: set.rpe,
+            rir: set.rir,
+            distance: set.distance,
+            durationSeconds: set.durationSeconds,
+            completedAt: set.completedAt,
+            restSeconds: set.restSeconds,
+          }))
+        );
+
+        for (const setBatch of chunk(setRows, INSERT_CHUNK_SIZE)) {
+          await db.insert(sets).values(setBatch);
+        }
+
+        setCount += setRows.length;
+      }
+    }
+  } catch (error) {
+    // The inserts aren't one transaction, so remove a partial import to keep
+    // a retry from creating duplicates. Children go with the cascade.
+    if (workoutIds.length > 0) {
+      await db
+        .delete(workouts)
+        .where(
+          and(eq(workouts.userId, user.id), inArray(workouts.id, workoutIds))
+        )
+        .catch(() => undefined);
+    }
+    throw error;
+  }
+
+  // Ids of the created workouts, in the same order as the input
+  return { workoutIds, workoutCount: data.length, setCount };
+}
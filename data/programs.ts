@@ -0,0 +1,311 @@
+import { db } from "@/db";
+import {
+  programs,
+  programSessions,
+  programWeeks,
+  workouts,
+  workoutTemplates,
+} from "@/db/schema";
+import { eq, and, inArray, isNull, count, asc } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { getUserSettings } from "@/data/users";
+import { convertWeight } from "@/lib/units";
+import { createWorkoutFromTemplate } from "@/data/workouts";
+import {
+  buildSessionSchedule,
+  type ProgressionType,
+} from "@/lib/programs";
+
+// Get all programs for the current user with session progress
+export async function getPrograms() {
+  const user = await getCurrentUser();
+
+  const rows = await db
+    .select({
+      id: programs.id,
+      name: programs.name,
+      startDate: programs.startDate,
+      weeks: programs.weeks,
+      progressionType: programs.progressionType,
+      sessionCount: count(programSessions.id),
+      completedCount: count(programSessions.workoutId),
+    })
+    .from(programs)
+    .leftJoin(programSessions, eq(programSessions.programId, programs.id))
+    .where(eq(programs.userId, user.id))
+    .groupBy(programs.id)
+    .orderBy(programs.startDate);
+
+  return rows.map((row) => ({
+    ...row,
+    progressionType: row.progressionType,
+  }));
+}
+
+export type ProgramSummary = Awaited<ReturnType<typeof getPrograms>>[number];
+
+// Get a single program with its weekly rules and scheduled sessions
+export async function getProgramWithSessions(programId: number) {
+  const user = await getCurrentUser();
+
+  const [program] = await db
+    .select()
+    .from(programs)
+    .where(and(eq(programs.id, programId), eq(programs.userId, user.id)));
+
+  if (!program) {
+    return null;
+  }
+
+  const [weeks, sessions] = await Promise.all([
+    db
+      .select()
+      .from(programWeeks)
+      .where(eq(programWeeks.programId, program.id))
+      .orderBy(programWeeks.weekNumber),
+    db
+      .select({
+        id: programSessions.id,
+        weekNumber: programSessions.weekNumber,
+        scheduledDate: programSessions.scheduledDate,
+        workoutId: programSessions.workoutId,
+        templateName: workoutTemplates.name,
+      })
+      .from(programSessions)
+      .innerJoin(
+        workoutTemplates,
+        eq(workoutTemplates.id, programSessions.templateId)
+      )
+      .where(eq(programSessions.programId, program.id))
+      .orderBy(asc(programSessions.scheduledDate), asc(programSessions.id)),
+  ]);
+
+  return {
+    program: {
+      ...program,
+      progressionType: program.progressionType,
+    },
+    weeks,
+    sessions,
+  };
+}
+
+export type ProgramWithSessions = NonNullable<
+  Awaited<ReturnType<typeof getProgramWithSessions>>
+>;
+
+// Get sessions planned for a date that have not been started yet
+export async function getPlannedSessionsByDate(date: string) {
+  const user = await getCurrentUser();
+
+  const rows = await db
+    .select({
+      id: programSessions.id,
+      weekNumber: programSessions.weekNumber,
+      scheduledDate: programSessions.scheduledDate,
+      programId: programs.id,
+      programName: programs.name,
+      progressionType: programs.progressionType,
+      progressionValue: programWeeks.progressionValue,
+      templateName: workoutTemplates.name,
+    })
+    .from(programSessions)
+    .innerJoin(programs, eq(programs.id, programSessions.programId))
+    .innerJoin(
+      workoutTemplates,
+      eq(workoutTemplates.id, programSessions.templateId)
+    )
+    .leftJoin(
+      programWeeks,
+      and(
+        eq(programWeeks.programId, programSessions.programId),
+        eq(programWeeks.weekNumber, programSessions.weekNumber)
+      )
+    )
+    .where(
+      and(
+        eq(programs.userId, user.id),
+        eq(programSessions.scheduledDate, date),
+        isNull(programSessions.workoutId)
+      )
+    )
+    .orderBy(programSessions.id);
+
+  return rows.map((row) => ({
+    ...row,
+    progressionType: row.progressionType,
+  }));
+}
+
+export type PlannedSession = Awaited<
+  ReturnType<typeof getPlannedSessionsByDate>
+>[number];
+
+export async function createProgram(data: {
+  name: string;
+  startDate: string;
+  weeks: number;
+  progressionType: ProgressionType;
+  progressionValues: string[];
+  notes?: string;
+  slots: { templateId: number; dayOffset: number }[];
+}) {
+  const user = await getCurrentUser();
+
+  // Verify every scheduled template belongs to the user
+  const templateIds = [...new Set(data.slots.map((slot) => slot.templateId))];
+  const ownedTemplates = await db
+    .select({ id: workoutTemplates.id })
+    .from(workoutTemplates)
+    .where(
+      and(
+        inArray(workoutTemplates.id, templateIds),
+        eq(workoutTemplates.userId, user.id)
+      )
+    );
+
+  if (ownedTemplates.length !== templateIds.length) {
+    throw new Error("Template not found");
+  }
+
+  // Load increments are entered in the user's preferred unit
+  const { weightUnit } = await getUserSettings();
+
+  const [program] = await db
+    .insert(programs)
+    .values({
+      userId: user.id,
+      loadUnit: weightUnit,
+      name: data.name,
+      startDate: data.startDate,
+      weeks: data.weeks,
+      progressionType: data.progressionType,
+      notes: data.notes,
+    })
+    .returning();
+
+  const schedule = buildSessionSchedule(data);
+
+  // Weeks and sessions are written in one transaction, and the program is
+  // removed again if that fails
+  const [first, ...rest] = [
+    ...(data.progressionValues.length > 0
+      ? [
+          db.insert(programWeeks).values(
+            data.progressionValues.map((progressionValue, index) => ({
+              programId: program.id,
+              weekNumber: index + 1,
+              progressionValue,
+            }))
+          ),
+        ]
+      : []),
+    ...(schedule.length > 0
+      ? [
+          db.insert(programSessions).values(
+            schedule.map((session) => ({
+              ...session,
+              programId: program.id,
+            }))
+          ),
+        ]
+      : []),
+  ];
+
+  if (first) {
+    try {
+      await db.batch([first, ...rest]);
+    } catch (error) {
+      await db
+        .delete(programs)
+        .where(eq(programs.id, program.id))
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  return program;
+}
+
+export async function deleteProgram(programId: number) {
+  const user = await getCurrentUser();
+
+  await db
+    .delete(programs)
+    .where(and(eq(programs.id, programId), eq(programs.userId, user.id)));
+}
+
+// Turn a planned session into a real workout with the week's loads applied
+export async function startPlannedSession(sessionId: number) {
+  const user = await getCurrentUser();
+
+  const [session] = await db
+    .select({
+      id: programSessions.id,
+      templateId: programSessions.templateId,
+      scheduledDate: programSessions.scheduledDate,
+      workoutId: programSessions.workoutId,
+      progressionType: programs.progressionType,
+      progressionValue: programWeeks.progressionValue,
+      loadUnit: programs.loadUnit,
+    })
+    .from(programSessions)
+    .innerJoin(programs, eq(programs.id, programSessions.programId))
+    .leftJoin(
+      programWeeks,
+      and(
+        eq(programWeeks.programId, programSessions.programId),
+        eq(programWeeks.weekNumber, programSessions.weekNumber)
+      )
+    )
+    .where(
+      and(eq(programSessions.id, sessionId), eq(programs.userId, user.id))
+    )
+    .limit(1);
+
+  if (!session) {
+    throw new Error("Planned session not found");
+  }
+
+  if (session.workoutId) {
+    return { id: session.workoutId, date: session.scheduledDate };
+  }
+
+  // Template targets come back in the preferred unit, so match the increment
+  const { weightUnit } = await getUserSettings();
+  const progressionValue =
+    session.progressionType === "load"
+      ? convertWeight(
+          Number(session.progressionValue),
+          session.loadUnit,
+          weightUnit
+        )
+      : Number(session.progressionValue);
+
+  const workout = await createWorkoutFromTemplate({
+    templateId: session.templateId,
+    date: session.scheduledDate,
+    prefillSets: true,
+    progression: session.progressionValue
+      ? {
+          type: session.progressionType,
+          value: progressionValue,
+        }
+      : undefined,
+    programSessionId: session.id,
+  });
+
+  // A double submit can get past the check above. The session keeps the
+  // first workout linked to it and any other one is removed.
+  const [linked] = await db
+    .select({ workoutId: programSessions.workoutId })
+    .from(programSessions)
+    .where(eq(programSessions.id, session.id));
+
+  if (linked?.workoutId && linked.workoutId !== workout.id) {
+    await db.delete(workouts).where(eq(workouts.id, workout.id));
+    return { id: linked.workoutId, date: session.scheduledDate };
+  }
+
+  return { id: workout.id, date: workout.date };
+}
@@ -0,0 +1,259 @@
+import { db } from "@/db";
+import { exercises, templateExercises, workoutTemplates } from "@/db/schema";
+import { eq, and, inArray, count, max } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { getUserSettings } from "@/data/users";
+import { visibleExercises } from "@/data/exercises";
+import { convertDecimalWeight } from "@/lib/units";
+
+// Get all templates for the current user with their exercise counts
+export async function getTemplates() {
+  const user = await getCurrentUser();
+
+  return db
+    .select({
+      id: workoutTemplates.id,
+      name: workoutTemplates.name,
+      notes: workoutTemplates.notes,
+      exerciseCount: count(templateExercises.id),
+    })
+    .from(workoutTemplates)
+    .leftJoin(
+      templateExercises,
+      eq(templateExercises.templateId, workoutTemplates.id)
+    )
+    .where(eq(workoutTemplates.userId, user.id))
+    .groupBy(workoutTemplates.id)
+    .orderBy(workoutTemplates.name);
+}
+
+export type TemplateSummary = Awaited<ReturnType<typeof getTemplates>>[number];
+
+// Get a single template with its ordered exercises and targets
+export async function getTemplateWithExercises(templateId: number) {
+  const user = await getCurrentUser();
+  const { weightUnit } = await getUserSettings();
+
+  const result = await db
+    .select({
+      template: workoutTemplates,
+      templateExercise: templateExercises,
+      exercise: exercises,
+    })
+    .from(workoutTemplates)
+    .leftJoin(
+      templateExercises,
+      eq(templateExercises.templateId, workoutTemplates.id)
+    )
+    .leftJoin(exercises, eq(exercises.id, templateExercises.exerciseId))
+    .where(
+      and(
+        eq(workoutTemplates.id, templateId),
+        eq(workoutTemplates.userId, user.id)
+      )
+    )
+    .orderBy(templateExercises.order);
+
+  if (result.length === 0 || !result[0].template) {
+    return null;
+  }
+
+  const templateExerciseRows: {
+    id: number;
+    exerciseId: number;
+    name: string;
+    order: number;
+    targetSets: number;
+    targetReps: number | null;
+    targetWeight: string | null;
+  }[] = [];
+
+  for (const row of result) {
+    if (row.templateExercise && row.exercise) {
+      templateExerciseRows.push({
+        id: row.templateExercise.id,
+        exerciseId: row.exercise.id,
+        name: row.exercise.name,
+        order: row.templateExercise.order,
+        targetSets: row.templateExercise.targetSets,
+        targetReps: row.templateExercise.targetReps,
+        targetWeight: convertDecimalWeight(
+          row.templateExercise.targetWeight,
+          row.templateExercise.targetWeightUnit,
+          weightUnit
+        ),
+      });
+    }
+  }
+
+  return {
+    template: result[0].template,
+    exercises: templateExerciseRows,
+  };
+}
+
+export type TemplateWithExercises = NonNullable<
+  Awaited<ReturnType<typeof getTemplateWithExercises>>
+>;
+
+export async function createTemplate(data: { name: string; notes?: string }) {
+  const user = await getCurrentUser();
+
+  const [template] = await db
+    .insert(workoutTemplates)
+    .values({
+      ...data,
+      userId: user.id,
+    })
+    .returning();
+
+  return template;
+}
+
+export async function updateTemplate(
+  templateId: number,
+  data: { name?: string; notes?: string | null }
+) {
+  const user = await getCurrentUser();
+
+  const [template] = await db
+    .update(workoutTemplates)
+    .set({ ...data, updatedAt: new Date() })
+    .where(
+      and(
+        eq(workoutTemplates.id, templateId),
+        eq(workoutTemplates.userId, user.id)
+      )
+    )
+    .returning();
+
+  return template;
+}
+
+export async function deleteTemplate(templateId: number) {
+  const user = await getCurrentUser();
+
+  await db
+    .delete(workoutTemplates)
+    .where(
+      and(
+        eq(workoutTemplates.id, templateId),
+        eq(workoutTemplates.userId, user.id)
+      )
+    );
+}
+
+// Add an exercise to the end of a template
+export async function addExerciseToTemplate(data: {
+  templateId: number;
+  exerciseId: number;
+  targetSets?: number;
+  targetReps: number | null;
+  targetWeight: string | null;
+}) {
+  const user = await getCurrentUser();
+
+  // Verify template belongs to user before adding exercise
+  const [template] = await db
+    .select()
+    .from(workoutTemplates)
+    .where(
+      and(
+        eq(workoutTemplates.id, data.templateId),
+        eq(workoutTemplates.userId, user.id)
+      )
+    )
+    .limit(1);
+
+  if (!template) {
+    throw new Error("Template not found");
+  }
+
+  // Verify the exercise is shared or the user's own
+  const [exercise] = await db
+    .select()
+    .from(exercises)
+    .where(and(eq(exercises.id, data.exerciseId), visibleExercises(user.id)))
+    .limit(1);
+
+  if (!exercise) {
+    throw new Error(`Exercise with ID ${data.exerciseId} not found`);
+  }
+
+  const [{ lastOrder }] = await db
+    .select({ lastOrder: max(templateExercises.order) })
+    .from(templateExercises)
+    .where(eq(templateExercises.templateId, data.templateId));
+
+  // Target weights are entered in the user's preferred unit
+  const { weightUnit, defaultSetCount } = await getUserSettings();
+
+  const [templateExercise] = await db
+    .insert(templateExercises)
+    .values({
+      ...data,
+      order: (lastOrder ?? -1) + 1,
+      targetSets: data.targetSets ?? Math.max(defaultSetCount, 1),
+      targetWeightUnit: weightUnit,
+    })
+    .returning();
+
+  return templateExercise;
+}
+
+// Update the targets of a template exercise
+export async function updateTemplateExercise(
+  templateExerciseId: number,
+  data: {
+    targetSets?: number;
+    targetReps?: number | null;
+    targetWeight?: string | null;
+  }
+) {
+  const user = await getCurrentUser();
+
+  // Verify ownership through template join
+  const userTemplateIds = db
+    .select({ id: workoutTemplates.id })
+    .from(workoutTemplates)
+    .where(eq(workoutTemplates.userId, user.id));
+
+  const { weightUnit } = await getUserSettings();
+
+  const [updated] = await db
+    .update(templateExercises)
+    .set(
+      data.targetWeight !== undefined
+        ? { ...data, targetWeightUnit: weightUnit }
+        : data
+    )
+    .where(
+      and(
+        eq(templateExercises.id, templateExerciseId),
+        inArray(templateExercises.templateId, userTemplateIds)
+      )
+    )
+    .returning();
+
+  return updated;
+}
+
+// Remove exercise from template
+export async function removeExerciseFromTemplate(templateExerciseId: number) {
+  const user = await getCurrentUser();
+
+  // Verify ownership through template join
+  const userTemplateIds = db
+    .select({ id: workoutTemplates.id })
+    .from(workoutTemplates)
+    .where(eq(workoutTemplates.userId, user.id));
+
+  await db
+    .delete(templateExercises)
+    .where(
+      and(
+        eq(templateExercises.id, templateExerciseId),
+        inArray(templateExercises.templateId, userTemplateIds)
+      )
+    );
+}
@@ -0,0 +1,90 @@
+import { db } from "@/db";
+import { muscleVolumeTargets, userSettings } from "@/db/schema";
+import { eq, sql } from "drizzle-orm";
+import { getCurrentUser } from "@/lib/auth";
+import { DEFAULT_USER_SETTINGS, type UserSettings } from "@/lib/settings";
+import { MUSCLE_GROUPS, type MuscleGroup } from "@/lib/exercise-metadata";
+import { DEFAULT_VOLUME_TARGET, type VolumeTarget } from "@/lib/volume";
+
+// Get the current user's settings, falling back to defaults if none are saved
+export async function getUserSettings(): Promise<UserSettings> {
+  const user = await getCurrentUser();
+
+  const [settings] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.userId, user.id));
+
+  if (!settings) {
+    return DEFAULT_USER_SETTINGS;
+  }
+
+  return {
+    weightUnit: settings.weightUnit,
+    defaultRestSeconds: settings.defaultRestSeconds,
+    weekStartsOn: settings.weekStartsOn,
+    e1rmFormula: settings.e1rmFormula,
+    defaultSetCount: settings.defaultSetCount,
+  };
+}
+
+export async function updateUserSettings(data: Partial<UserSettings>) {
+  const user = await getCurrentUser();
+
+  const [settings] = await db
+    .insert(userSettings)
+    .values({ ...data, userId: user.id })
+    .onConflictDoUpdate({
+      target: userSettings.userId,
+      set: { ...data, updatedAt: new Date() },
+    })
+    .returning();
+
+  return settings;
+}
+
+// Get the current user's weekly set range for every muscle group, using the
+// default range for any they have not set
+export async function getVolumeTargets(): Promise<
+  Record<MuscleGroup, VolumeTarget>
+> {
+  const user = await getCurrentUser();
+
+  const rows = await db
+    .select()
+    .from(muscleVolumeTargets)
+    .where(eq(muscleVolumeTargets.userId, user.id));
+
+  return Object.fromEntries(
+    MUSCLE_GROUPS.map((muscle) => {
+      const row = rows.find((r) => r.muscle === muscle);
+      return [
+        muscle,
+        row
+          ? { minSets: row.minSets, maxSets: row.maxSets }
+          : DEFAULT_VOLUME_TARGET,
+      ];
+    })
+  ) as Record<MuscleGroup, VolumeTarget>;
+}
+
+// Save weekly set ranges for the given muscle groups
+export async function updateVolumeTargets(
+  targets: ({ muscle: MuscleGroup } & VolumeTarget)[]
+) {
+  const user = await getCurrentUser();
+
+  if (targets.length === 0) return;
+
+  await db
+    .insert(muscleVolumeTargets)
+    .values(targets.map((target) => ({ ...target, userId: user.id })))
+    .onConflictDoUpdate({
+      target: [muscleVolumeTargets.userId, muscleVolumeTargets.muscle],
+      set: {
+        minSets: sql`excluded.min_sets`,
+        maxSets: sql`excluded.max_sets`,
+        updatedAt: new Date(),
+      },
+    });
+}
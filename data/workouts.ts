@@ -1,10 +1,33 @@
 import { db } from "@/db";
-import { workouts, workoutExercises, exercises, sets } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import {
+  workouts,
+  workoutExercises,
+  exercises,
+  sets,
+  programSessions,
+} from "@/db/schema";
+import {
+  eq,
+  and,
+  lt,
+  gte,
+  lte,
+  desc,
+  isNull,
+  isNotNull,
+  sql,
+} from "drizzle-orm";
 import { getCurrentUser } from "@/lib/auth";
+import { getTemplateWithExercises } from "@/data/templates";
+import { getUserSettings } from "@/data/users";
+import { convertDecimalWeight } from "@/lib/units";
+import type { SetType } from "@/lib/sets";
+import type { MeasurementType } from "@/lib/measurements";
+import { applyProgression, type ProgressionRule } from "@/lib/programs";
 
 export async function getWorkoutsByDate(date: string) {
   const user = await getCurrentUser();
+  const { weightUnit } = await getUserSettings();
 
   const result = await db
     .select({
@@ -28,12 +51,28 @@ export async function getWorkoutsByDate(date: string) {
       name: string | null;
       date: string;
       notes: string | null;
+      startedAt: Date | null;
+      completedAt: Date | null;
       exercises: Map<
         number,
         {
           id: number;
+          exerciseId: number;
           name: string;
-          sets: { setNumber: number; weight: string | null; reps: number | null }[];
+          measurementType: MeasurementType;
+          supersetGroup: number | null;
+          sets: {
+            id: number;
+            setNumber: number;
+            setType: SetType;
+            weight: string | null;
+            reps: number | null;
+            rpe: number | null;
+            rir: number | null;
+            distance: number | null;
+            durationSeconds: number | null;
+            completedAt: Date | null;
+          }[];
         }
       >;
     }
@@ -48,6 +87,8 @@ export async function getWorkoutsByDate(date: string) {
         name: row.workout.name,
         date: row.workout.date,
         notes: row.workout.notes,
+        startedAt: row.workout.startedAt,
+        completedAt: row.workout.completedAt,
         exercises: new Map(),
       });
     }
@@ -58,7 +99,10 @@ export async function getWorkoutsByDate(date: string) {
       if (!workout.exercises.has(row.workoutExercise.id)) {
         workout.exercises.set(row.workoutExercise.id, {
           id: row.workoutExercise.id,
+          exerciseId: row.exercise.id,
           name: row.exercise.name,
+          measurementType: row.exercise.measurementType,
+          supersetGroup: row.workoutExercise.supersetGroup,
           sets: [],
         });
       }
@@ -67,9 +111,20 @@ export async function getWorkoutsByDate(date: string) {
 
       if (row.set) {
         exercise.sets.push({
+          id: row.set.id,
           setNumber: row.set.setNumber,
-          weight: row.set.weight,
+          setType: row.set.setType,
+          weight: convertDecimalWeight(
+            row.set.weight,
+            row.set.weightUnit,
+            weightUnit
+          ),
           reps: row.set.reps,
+          rpe: row.set.rpe,
+          rir: row.set.rir,
+          distance: row.set.distance,
+          durationSeconds: row.set.durationSeconds,
+          completedAt: row.set.completedAt,
         });
       }
     }
@@ -86,6 +141,54 @@ export type WorkoutWithExercises = Awaited<
   ReturnType<typeof getWorkoutsByDate>
 >[number];
 
+// Get one row per logged set across the user's whole log, optionally limited
+// to a date range, in the order the sets were performed
+export async function getTrainingLogSets(range: { from?: string; to?: string }) {
+  const user = await getCurrentUser();
+  const { weightUnit } = await getUserSettings();
+
+  const rows = await db
+    .select({
+      date: workouts.date,
+      workoutName: workouts.name,
+      notes: workouts.notes,
+      exerciseName: exercises.name,
+      setNumber: sets.setNumber,
+      setType: sets.setType,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+      rpe: sets.rpe,
+      rir: sets.rir,
+      distance: sets.distance,
+      durationSeconds: sets.durationSeconds,
+    })
+    .from(workouts)
+    .innerJoin(workoutExercises, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(exercises.id, workoutExercises.exerciseId))
+    .innerJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
+    .where(
+      and(
+        eq(workouts.userId, user.id),
+        range.from ? gte(workouts.date, range.from) : undefined,
+        range.to ? lte(workouts.date, range.to) : undefined
+      )
+    )
+    .orderBy(
+      workouts.date,
+      workouts.id,
+      workoutExercises.order,
+      workoutExercises.id,
+      sets.setNumber
+    );
+
+  return rows.map((row) => ({
+    ...row,
+    weight: convertDecimalWeight(row.weight, row.weightUnit, weightUnit),
+    weightUnit,
+  }));
+}
+
 export async function createWorkout(data: {
   name?: string;
   date: string;
@@ -104,6 +207,176 @@ export async function createWorkout(data: {
   return workout;
 }
 
+// The id of the exercise at a position in a workout, for inserting sets in
+// the same batch as their exercise, before its id is known
+function workoutExerciseIdAt(workoutId: number, order: number) {
+  return sql<number>`${db
+    .select({ id: workoutExercises.id })
+    .from(workoutExercises)
+    .where(
+      and(
+        eq(workoutExercises.workoutId, workoutId),
+        eq(workoutExercises.order, order)
+      )
+    )}`;
+}
+
+// Create a workout with its exercises and sets copied from a template. The
+// exercises, sets and any link to a planned session are written in one
+// transaction; if that fails the new workout is removed again.
+export async function createWorkoutFromTemplate(data: {
+  templateId: number;
+  name?: string;
+  date: string;
+  notes?: string;
+  prefillSets: boolean;
+  progression?: ProgressionRule;
+  // Planned session to link the workout to, if it isn't linked already
+  programSessionId?: number;
+}) {
+  const [templateData, { weightUnit }] = await Promise.all([
+    getTemplateWithExercises(data.templateId),
+    getUserSettings(),
+  ]);
+
+  if (!templateData) {
+    throw new Error("Template not found");
+  }
+
+  const workout = await createWorkout({
+    name: data.name ?? templateData.template.name,
+    date: data.date,
+    notes: data.notes,
+  });
+
+  const setValues = templateData.exercises.flatMap((templateExercise, order) => {
+    const targetWeight = data.progression
+      ? applyProgression(
+          templateExercise.targetWeight,
+          data.progression,
+          weightUnit
+        )
+      : templateExercise.targetWeight;
+    return Array.from({ length: templateExercise.targetSets }, (_, i) => ({
+      workoutExerciseId: workoutExerciseIdAt(workout.id, order),
+      setNumber: i + 1,
+      weight: data.prefillSets ? targetWeight : null,
+      weightUnit,
+      reps: data.prefillSets ? templateExercise.targetReps : null,
+    }));
+  });
+
+  const [first, ...rest] = [
+    ...(templateData.exercises.length > 0
+      ? [
+          db.insert(workoutExercises).values(
+            templateData.exercises.map((templateExercise, index) => ({
+              workoutId: workout.id,
+              exerciseId: templateExercise.exerciseId,
+              order: index,
+            }))
+          ),
+        ]
+      : []),
+    ...(setValues.length > 0 ? [db.insert(sets).values(setValues)] : []),
+    ...(data.programSessionId !== undefined
+      ? [
+          db
+            .update(programSessions)
+            .set({ workoutId: workout.id })
+            .where(
+              and(
+                eq(programSessions.id, data.programSessionId),
+                isNull(programSessions.workoutId)
+              )
+            ),
+        ]
+      : []),
+  ];
+
+  if (first) {
+    try {
+      await db.batch([first, ...rest]);
+    } catch (error) {
+      await db
+        .delete(workouts)
+        .where(eq(workouts.id, workout.id))
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  return workout;
+}
+
+// Create a new workout on another date with the same name and exercises as
+// an existing one. Each exercise gets the same number and types of sets;
+// with copySets their weights, reps and other values come along as targets.
+// The copy is written in one transaction, and the new workout is removed
+// again if it fails.
+export async function repeatWorkout(data: {
+  workoutId: number;
+  date: string;
+  copySets: boolean;
+}) {
+  const [source, { weightUnit }] = await Promise.all([
+    getWorkoutWithExercises(data.workoutId),
+    getUserSettings(),
+  ]);
+
+  if (!source) {
+    throw new Error("Workout not found");
+  }
+
+  const workout = await createWorkout({
+    name: source.workout.name ?? undefined,
+    date: data.date,
+  });
+
+  // Source weights are already in the user's unit, so new sets are stamped
+  // with it
+  const setValues = source.exercises.flatMap((exercise, order) =>
+    exercise.sets.map((set, index) => ({
+      workoutExerciseId: workoutExerciseIdAt(workout.id, order),
+      setNumber: index + 1,
+      setType: set.setType,
+      weightUnit,
+      ...(data.copySets && {
+        weight: set.weight,
+        reps: set.reps,
+        rpe: set.rpe,
+        rir: set.rir,
+        distance: set.distance,
+        durationSeconds: set.durationSeconds,
+      }),
+    }))
+  );
+
+  if (source.exercises.length > 0) {
+    try {
+      await db.batch([
+        db.insert(workoutExercises).values(
+          source.exercises.map((exercise, index) => ({
+            workoutId: workout.id,
+            exerciseId: exercise.exerciseId,
+            supersetGroup: exercise.supersetGroup,
+            order: index,
+          }))
+        ),
+        ...(setValues.length > 0 ? [db.insert(sets).values(setValues)] : []),
+      ]);
+    } catch (error) {
+      await db
+        .delete(workouts)
+        .where(eq(workouts.id, workout.id))
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  return workout;
+}
+
 export async function getWorkoutById(workoutId: number) {
   const user = await getCurrentUser();
 
@@ -140,9 +413,49 @@ export async function updateWorkout(
   return workout;
 }
 
+// Start the live session for a workout that has not been started yet
+export async function startWorkoutSession(workoutId: number) {
+  const user = await getCurrentUser();
+
+  const [workout] = await db
+    .update(workouts)
+    .set({ startedAt: new Date() })
+    .where(
+      and(
+        eq(workouts.id, workoutId),
+        eq(workouts.userId, user.id),
+        isNull(workouts.startedAt)
+      )
+    )
+    .returning();
+
+  return workout;
+}
+
+// Finish the live session for a workout that has been started
+export async function finishWorkoutSession(workoutId: number) {
+  const user = await getCurrentUser();
+
+  const [workout] = await db
+    .update(workouts)
+    .set({ completedAt: new Date() })
+    .where(
+      and(
+        eq(workouts.id, workoutId),
+        eq(workouts.userId, user.id),
+        isNotNull(workouts.startedAt),
+        isNull(workouts.completedAt)
+      )
+    )
+    .returning();
+
+  return workout;
+}
+
 // Get a single workout with exercises and sets
 export async function getWorkoutWithExercises(workoutId: number) {
   const user = await getCurrentUser();
+  const { weightUnit } = await getUserSettings();
 
   const result = await db
     .select({
@@ -168,9 +481,24 @@ export async function getWorkoutWithExercises(workoutId: number) {
     number,
     {
       id: number;
+      exerciseId: number;
       name: string;
+      measurementType: MeasurementType;
+      supersetGroup: number | null;
       order: number;
-      sets: { id: number; setNumber: number; weight: string | null; reps: number | null }[];
+      sets: {
+        id: number;
+        setNumber: number;
+        setType: SetType;
+        weight: string | null;
+        reps: number | null;
+        rpe: number | null;
+        rir: number | null;
+        distance: number | null;
+        durationSeconds: number | null;
+        completedAt: Date | null;
+        restSeconds: number | null;
+      }[];
     }
   >();
 
@@ -179,7 +507,10 @@ export async function getWorkoutWithExercises(workoutId: number) {
       if (!exercisesMap.has(row.workoutExercise.id)) {
         exercisesMap.set(row.workoutExercise.id, {
           id: row.workoutExercise.id,
+          exerciseId: row.exercise.id,
           name: row.exercise.name,
+          measurementType: row.exercise.measurementType,
+          supersetGroup: row.workoutExercise.supersetGroup,
           order: row.workoutExercise.order,
           sets: [],
         });
@@ -191,8 +522,19 @@ export async function getWorkoutWithExercises(workoutId: number) {
         exercise.sets.push({
           id: row.set.id,
           setNumber: row.set.setNumber,
-          weight: row.set.weight,
+          setType: row.set.setType,
+          weight: convertDecimalWeight(
+            row.set.weight,
+            row.set.weightUnit,
+            weightUnit
+          ),
           reps: row.set.reps,
+          rpe: row.set.rpe,
+          rir: row.set.rir,
+          distance: row.set.distance,
+          durationSeconds: row.set.durationSeconds,
+          completedAt: row.set.completedAt,
+          restSeconds: row.set.restSeconds,
         });
       }
     }
@@ -207,3 +549,64 @@ export async function getWorkoutWithExercises(workoutId: number) {
 export type WorkoutWithExercisesAndSets = Awaited<
   ReturnType<typeof getWorkoutWithExercises>
 >;
+
+// Get the sets from the most recent workout before a date that contains the
+// given exercise
+export async function getPreviousExerciseSets(
+  exerciseId: number,
+  beforeDate: string
+) {
+  const user = await getCurrentUser();
+  const { weightUnit } = await getUserSettings();
+
+  const [previous] = await db
+    .select({
+      workoutExerciseId: workoutExercises.id,
+      date: workouts.date,
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workouts.id, workoutExercises.workoutId))
+    .where(
+      and(
+        eq(workouts.userId, user.id),
+        eq(workoutExercises.exerciseId, exerciseId),
+        lt(workouts.date, beforeDate)
+      )
+    )
+    .orderBy(desc(workouts.date), desc(workouts.id), desc(workoutExercises.id))
+    .limit(1);
+
+  if (!previous) {
+    return null;
+  }
+
+  const previousSets = await db
+    .select({
+      setNumber: sets.setNumber,
+      setType: sets.setType,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+      distance: sets.distance,
+      durationSeconds: sets.durationSeconds,
+    })
+    .from(sets)
+    .where(eq(sets.workoutExerciseId, previous.workoutExerciseId))
+    .orderBy(sets.setNumber);
+
+  return {
+    date: previous.date,
+    sets: previousSets.map((set) => ({
+      setNumber: set.setNumber,
+      setType: set.setType,
+      weight: convertDecimalWeight(set.weight, set.weightUnit, weightUnit),
+      reps: set.reps,
+      distance: set.distance,
+      durationSeconds: set.durationSeconds,
+    })),
+  };
+}
+
+export type PreviousExerciseSets = NonNullable<
+  Awaited<ReturnType<typeof getPreviousExerciseSets>>
+>;
@@ -1,8 +1,21 @@
 import { drizzle } from 'drizzle-orm/neon-http';
-import { neon } from '@neondatabase/serverless';
+import { DrizzleQueryError } from 'drizzle-orm/errors';
+import { neon, NeonDbError } from '@neondatabase/serverless';
 import * as schema from './schema';
 
 const sql = neon(process.env.DATABASE_URL!);
 const db = drizzle(sql, { schema });
 
-export { db };
\ No newline at end of file
+// Whether a query failed on a unique constraint, optionally a given one.
+// Drizzle wraps the driver's error, so its cause is checked too.
+function isUniqueViolation(error: unknown, constraint?: string): boolean {
+  const cause = error instanceof DrizzleQueryError ? error.cause : error;
+
+  return (
+    cause instanceof NeonDbError &&
+    cause.code === '23505' &&
+    (constraint === undefined || cause.constraint === constraint)
+  );
+}
+
+export { db, isUniqueViolation };
@@ -1,11 +1,45 @@
-import { pgTable, serial, varchar, text, integer, decimal, date, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, serial, varchar, text, integer, decimal, date, timestamp, boolean, unique } from 'drizzle-orm/pg-core';
+import type { WeightUnit } from '../lib/units';
+import type { WeekStartDay } from '../lib/settings';
+import type { E1rmFormula } from '../lib/strength';
+import type { SetType } from '../lib/sets';
+import type { MeasurementType } from '../lib/measurements';
+import type { MuscleGroup, Equipment, MovementPattern } from '../lib/exercise-metadata';
+import type { ProgressionType } from '../lib/programs';
 
 export const exercises = pgTable('exercises', {
   id: serial('id').primaryKey(),
-  name: varchar('name', { length: 255 }).notNull().unique(),
+  // Null for the shared library; set on a user's own custom exercises
+  userId: varchar('user_id', { length: 255 }),
+  name: varchar('name', { length: 255 }).notNull(),
+  // Which values a set of this exercise records
+  measurementType: varchar('measurement_type', { length: 20 }).$type<MeasurementType>().notNull().default('weight_reps'),
+  // Muscles the exercise trains: primary movers and muscles that assist
+  primaryMuscles: text('primary_muscles').array().$type<MuscleGroup[]>().notNull().default([]),
+  secondaryMuscles: text('secondary_muscles').array().$type<MuscleGroup[]>().notNull().default([]),
+  equipment: varchar('equipment', { length: 20 }).$type<Equipment>(),
+  movementPattern: varchar('movement_pattern', { length: 20 }).$type<MovementPattern>(),
+  // Trained one side at a time, like a split squat or one-arm row
+  unilateral: boolean('unilateral').notNull().default(false),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
-});
+}, (table) => [
+  // Names are unique within the shared library and within each user's own
+  // exercises, so two users can both add a "Landmine Press"
+  unique('exercises_user_name_unique').on(table.userId, table.name).nullsNotDistinct(),
+]);
+
+// Other names an exercise goes by ("OHP", "RDL"), used by search and when
+// matching imported exercise names. Merged exercises leave their old name
+// behind as an alias.
+export const exerciseAliases = pgTable('exercise_aliases', {
+  id: serial('id').primaryKey(),
+  exerciseId: integer('exercise_id').notNull().references(() => exercises.id, { onDelete: 'cascade' }),
+  alias: varchar('alias', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  unique('exercise_aliases_exercise_alias_unique').on(table.exerciseId, table.alias),
+]);
 
 export const workouts = pgTable('workouts', {
   id: serial('id').primaryKey(),
@@ -23,6 +57,9 @@ export const workoutExercises = pgTable('workout_exercises', {
   workoutId: integer('workout_id').notNull().references(() => workouts.id, { onDelete: 'cascade' }),
   exerciseId: integer('exercise_id').notNull().references(() => exercises.id),
   order: integer('order').notNull().default(0),
+  // Consecutive exercises sharing a group number within a workout are done as
+  // a superset or circuit
+  supersetGroup: integer('superset_group'),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -30,7 +67,106 @@ export const sets = pgTable('sets', {
   id: serial('id').primaryKey(),
   workoutExerciseId: integer('workout_exercise_id').notNull().references(() => workoutExercises.id, { onDelete: 'cascade' }),
   setNumber: integer('set_number').notNull(),
+  setType: varchar('set_type', { length: 10 }).$type<SetType>().notNull().default('working'),
   weight: decimal('weight', { precision: 6, scale: 2 }),
+  weightUnit: varchar('weight_unit', { length: 2 }).$type<WeightUnit>().notNull().default('lb'),
   reps: integer('reps'),
+  // Optional effort ratings: RPE in half steps, or reps left in reserve
+  rpe: decimal('rpe', { precision: 3, scale: 1, mode: 'number' }),
+  rir: integer('rir'),
+  // Distance in metres and duration in seconds, for exercises measured that way
+  distance: decimal('distance', { precision: 8, scale: 2, mode: 'number' }),
+  durationSeconds: integer('duration_seconds'),
+  completedAt: timestamp('completed_at'),
+  // Rest taken before this set, measured from the previous completed set
+  restSeconds: integer('rest_seconds'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  unique('sets_workout_exercise_set_number_unique').on(table.workoutExerciseId, table.setNumber),
+]);
+
+export const workoutTemplates = pgTable('workout_templates', {
+  id: serial('id').primaryKey(),
+  userId: varchar('user_id', { length: 255 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  notes: text('notes'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const templateExercises = pgTable('template_exercises', {
+  id: serial('id').primaryKey(),
+  templateId: integer('template_id').notNull().references(() => workoutTemplates.id, { onDelete: 'cascade' }),
+  exerciseId: integer('exercise_id').notNull().references(() => exercises.id),
+  order: integer('order').notNull().default(0),
+  targetSets: integer('target_sets').notNull().default(3),
+  targetReps: integer('target_reps'),
+  targetWeight: decimal('target_weight', { precision: 6, scale: 2 }),
+  targetWeightUnit: varchar('target_weight_unit', { length: 2 }).$type<WeightUnit>().notNull().default('lb'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const programs = pgTable('programs', {
+  id: serial('id').primaryKey(),
+  userId: varchar('user_id', { length: 255 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  startDate: date('start_date').notNull(),
+  weeks: integer('weeks').notNull(),
+  progressionType: varchar('progression_type', { length: 20 }).$type<ProgressionType>().notNull().default('percentage'),
+  loadUnit: varchar('load_unit', { length: 2 }).$type<WeightUnit>().notNull().default('lb'),
+  notes: text('notes'),
   createdAt: timestamp('created_at').defaultNow(),
 });
+
+export const programWeeks = pgTable('program_weeks', {
+  id: serial('id').primaryKey(),
+  programId: integer('program_id').notNull().references(() => programs.id, { onDelete: 'cascade' }),
+  weekNumber: integer('week_number').notNull(),
+  progressionValue: decimal('progression_value', { precision: 6, scale: 2 }).notNull(),
+});
+
+export const programSessions = pgTable('program_sessions', {
+  id: serial('id').primaryKey(),
+  programId: integer('program_id').notNull().references(() => programs.id, { onDelete: 'cascade' }),
+  templateId: integer('template_id').notNull().references(() => workoutTemplates.id, { onDelete: 'cascade' }),
+  weekNumber: integer('week_number').notNull(),
+  scheduledDate: date('scheduled_date').notNull(),
+  workoutId: integer('workout_id').references(() => workouts.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const userSettings = pgTable('user_settings', {
+  id: serial('id').primaryKey(),
+  userId: varchar('user_id', { length: 255 }).notNull().unique(),
+  weightUnit: varchar('weight_unit', { length: 2 }).$type<WeightUnit>().notNull().default('lb'),
+  defaultRestSeconds: integer('default_rest_seconds').notNull().default(90),
+  weekStartsOn: integer('week_starts_on').$type<WeekStartDay>().notNull().default(0),
+  e1rmFormula: varchar('e1rm_formula', { length: 20 }).$type<E1rmFormula>().notNull().default('epley'),
+  defaultSetCount: integer('default_set_count').notNull().default(3),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const exerciseRestTimes = pgTable('exercise_rest_times', {
+  id: serial('id').primaryKey(),
+  userId: varchar('user_id', { length: 255 }).notNull(),
+  exerciseId: integer('exercise_id').notNull().references(() => exercises.id, { onDelete: 'cascade' }),
+  restSeconds: integer('rest_seconds').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  unique('exercise_rest_times_user_exercise_unique').on(table.userId, table.exerciseId),
+]);
+
+// A user's weekly hard set range for a muscle group, overriding the default
+export const muscleVolumeTargets = pgTable('muscle_volume_targets', {
+  id: serial('id').primaryKey(),
+  userId: varchar('user_id', { length: 255 }).notNull(),
+  muscle: varchar('muscle', { length: 20 }).$type<MuscleGroup>().notNull(),
+  minSets: integer('min_sets').notNull(),
+  maxSets: integer('max_sets').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  unique('muscle_volume_targets_user_muscle_unique').on(table.userId, table.muscle),
+]);
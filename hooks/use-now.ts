@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+// Current time in milliseconds, refreshed every `interval` ms while enabled
+export function useNow(interval: number, enabled = true): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handler = setInterval(() => {
+      setNow(Date.now());
+    }, interval);
+
+    return () => {
+      clearInterval(handler);
+    };
+  }, [interval, enabled]);
+
+  return now;
+}
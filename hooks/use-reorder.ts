@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { moveItem } from "@/lib/utils";
+
+// Drag-and-drop and arrow-key reordering for a list of ids. The handle is
+// what gets dragged or focused; the target is the whole item it drops onto.
+export function useReorder(ids: number[], onReorder: (ids: number[]) => void) {
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+
+  const move = (id: number, to: number) => {
+    const from = ids.indexOf(id);
+    if (from === -1 || to < 0 || to >= ids.length || from === to) return;
+    onReorder(moveItem(ids, from, to));
+  };
+
+  const handleProps = (id: number) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent<HTMLElement>) => {
+      setDraggingId(id);
+      e.dataTransfer.effectAllowed = "move";
+      // Show the whole item under the cursor rather than just the handle
+      const item = e.currentTarget.closest("[data-reorder-item]");
+      if (item) e.dataTransfer.setDragImage(item, 0, 0);
+    },
+    onDragEnd: () => setDraggingId(null),
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => {
+      if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+      e.preventDefault();
+      move(id, ids.indexOf(id) + (e.key === "ArrowUp" ? -1 : 1));
+    },
+  });
+
+  const targetProps = (id: number) => ({
+    "data-reorder-item": true,
+    onDragOver: (e: React.DragEvent<HTMLElement>) => {
+      if (draggingId !== null) e.preventDefault();
+    },
+    onDrop: (e: React.DragEvent<HTMLElement>) => {
+      e.preventDefault();
+      if (draggingId !== null) move(draggingId, ids.indexOf(id));
+      setDraggingId(null);
+    },
+  });
+
+  return { draggingId, move, handleProps, targetProps };
+}
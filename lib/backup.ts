@@ -0,0 +1,161 @@
+import { z } from "zod";
+import { WEIGHT_UNITS } from "./units";
+import { E1RM_FORMULAS } from "./strength";
+import { PROGRESSION_TYPES } from "./programs";
+import { WEEK_START_DAYS } from "./settings";
+import { DEFAULT_SET_TYPE, SET_TYPES } from "./sets";
+import { MEASUREMENT_TYPES } from "./measurements";
+import {
+  EQUIPMENT,
+  MOVEMENT_PATTERNS,
+  MUSCLE_GROUPS,
+} from "./exercise-metadata";
+
+// Bump when the shape changes, and keep reading older versions
+export const BACKUP_VERSION = 1;
+
+export const RESTORE_MODES = ["merge", "replace"] as const;
+
+export type RestoreMode = (typeof RESTORE_MODES)[number];
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format");
+const weightSchema = z.string().regex(/^\d+(\.\d{1,2})?$/);
+// Progression steps can go down as well as up, as in a deload week
+const progressionValueSchema = z.string().regex(/^-?\d+(\.\d{1,2})?$/);
+
+// Ids inside a backup are only references between its own records; they are
+// never written to the database
+export const BackupSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string(),
+  settings: z
+    .object({
+      weightUnit: z.enum(WEIGHT_UNITS),
+      defaultRestSeconds: z.number().int().min(0),
+      weekStartsOn: z.union(WEEK_START_DAYS.map((day) => z.literal(day))),
+      e1rmFormula: z.enum(E1RM_FORMULAS),
+      defaultSetCount: z.number().int().min(0),
+    })
+    .nullable(),
+  // Exercises are matched back to the library by name. The user's own
+  // custom exercises carry their definition so a restore can recreate them.
+  exercises: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      custom: z
+        .object({
+          measurementType: z.enum(MEASUREMENT_TYPES),
+          primaryMuscles: z.array(z.enum(MUSCLE_GROUPS)),
+          secondaryMuscles: z.array(z.enum(MUSCLE_GROUPS)),
+          equipment: z.enum(EQUIPMENT).nullable(),
+          movementPattern: z.enum(MOVEMENT_PATTERNS).nullable(),
+          unilateral: z.boolean(),
+          aliases: z.array(z.string()).default([]),
+        })
+        .nullable()
+        .default(null),
+    })
+  ),
+  restTimes: z
+    .array(z.object({ exerciseId: z.number(), restSeconds: z.number().int() }))
+    .default([]),
+  volumeTargets: z
+    .array(
+      z.object({
+        muscle: z.enum(MUSCLE_GROUPS),
+        minSets: z.number().int().min(0),
+        maxSets: z.number().int().min(0),
+      })
+    )
+    .default([]),
+  workouts: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string().nullable(),
+      date: dateSchema,
+      notes: z.string().nullable(),
+      startedAt: z.string().nullable(),
+      completedAt: z.string().nullable(),
+      exercises: z.array(
+        z.object({
+          exerciseId: z.number(),
+          supersetGroup: z.number().int().nullable().default(null),
+          sets: z.array(
+            z.object({
+              setType: z.enum(SET_TYPES).default(DEFAULT_SET_TYPE),
+              weight: weightSchema.nullable(),
+              weightUnit: z.enum(WEIGHT_UNITS),
+              reps: z.number().int().nullable(),
+              rpe: z.number().nullable().default(null),
+              rir: z.number().int().nullable().default(null),
+              distance: z.number().nullable().default(null),
+              durationSeconds: z.number().int().nullable().default(null),
+              completedAt: z.string().nullable().optional(),
+              restSeconds: z.number().int().nullable().optional(),
+            })
+          ),
+        })
+      ),
+    })
+  ),
+  templates: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      notes: z.string().nullable(),
+      exercises: z.array(
+        z.object({
+          exerciseId: z.number(),
+          targetSets: z.number().int(),
+          targetReps: z.number().int().nullable(),
+          targetWeight: weightSchema.nullable(),
+          targetWeightUnit: z.enum(WEIGHT_UNITS),
+        })
+      ),
+    })
+  ),
+  programs: z.array(
+    z.object({
+      name: z.string(),
+      startDate: dateSchema,
+      weeks: z.number().int(),
+      progressionType: z.enum(PROGRESSION_TYPES),
+      loadUnit: z.enum(WEIGHT_UNITS),
+      notes: z.string().nullable(),
+      progressionValues: z.array(progressionValueSchema),
+      sessions: z.array(
+        z.object({
+          templateId: z.number(),
+          weekNumber: z.number().int(),
+          scheduledDate: dateSchema,
+          workoutId: z.number().nullable(),
+        })
+      ),
+    })
+  ),
+});
+
+export type Backup = z.infer<typeof BackupSchema>;
+
+// Parse and validate a backup file
+export function parseBackup(text: string): Backup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const version = (json as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app");
+  }
+
+  const result = BackupSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error("The file is not a valid backup");
+  }
+
+  return result.data;
+}
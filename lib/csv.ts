@@ -0,0 +1,68 @@
+type CsvValue = string | number | null | undefined;
+
+// Quote a field when it contains a delimiter, quote or line break
+function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Format a single CSV line, including the trailing line break
+export function toCsvRow(values: CsvValue[]): string {
+  return values.map(escapeCsvField).join(",") + "\r\n";
+}
+
+// Guess the delimiter from the header line; some exports use semicolons
+function detectDelimiter(text: string): string {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  const semicolons = headerLine.split(";").length;
+  const commas = headerLine.split(",").length;
+  return semicolons > commas ? ";" : ",";
+}
+
+// Parse CSV text into rows of fields, handling quoted fields that contain
+// delimiters, escaped quotes and line breaks. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
@@ -0,0 +1,45 @@
+export const MIN_RPE = 6;
+export const MAX_RPE = 10;
+
+// RPE is logged in half steps: 6, 6.5, ... 10
+export const RPE_VALUES = Array.from(
+  { length: (MAX_RPE - MIN_RPE) * 2 + 1 },
+  (_, i) => MIN_RPE + i / 2
+);
+
+export const MAX_RIR = 5;
+
+// Percentage of 1RM for a set taken to failure, in half-rep steps. Each half
+// point of RPE below 10 is half a rep left in the tank, so one row covers the
+// whole RPE chart (1 rep at RPE 10 is index 0, 12 reps at RPE 6 is the end).
+const RPE_CHART_PERCENTAGES = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0, 83.7, 82.4, 81.1,
+  79.9, 78.6, 77.4, 76.2, 75.1, 73.9, 72.3, 70.7, 69.4, 68.0, 66.7, 65.3, 64.0,
+  62.6, 61.3, 59.9, 58.6, 57.4,
+];
+
+// The chart only covers sets of up to 12 reps
+export const MAX_RPE_CHART_REPS = 12;
+
+// The effort to use for a set, preferring RPE and falling back to reps in
+// reserve. RIR beyond the chart (more than 4 reps left) has no RPE equivalent.
+export function effectiveRpe(set: {
+  rpe: number | null;
+  rir: number | null;
+}): number | null {
+  if (set.rpe !== null) return set.rpe;
+  if (set.rir !== null && MAX_RPE - set.rir >= MIN_RPE) {
+    return MAX_RPE - set.rir;
+  }
+  return null;
+}
+
+// Look up the fraction of 1RM a set of this many reps at this RPE represents,
+// or null when the set falls outside the chart
+export function rpeChartPercentage(reps: number, rpe: number): number | null {
+  if (reps < 1 || reps > MAX_RPE_CHART_REPS) return null;
+  if (rpe < MIN_RPE || rpe > MAX_RPE) return null;
+
+  const index = Math.round((reps - 1 + MAX_RPE - rpe) * 2);
+  return RPE_CHART_PERCENTAGES[index] / 100;
+}
@@ -0,0 +1,172 @@
+// Reduce an exercise name to a comparable form: lower case, punctuation
+// removed and simple plurals dropped ("Pull-ups" and "Pull Up" both become
+// "pull up")
+export function normalizeExerciseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .map((word) => (word.length > 2 ? word.replace(/s$/, "") : word))
+    .join(" ");
+}
+
+// Other apps put the equipment in brackets ("Bench Press (Dumbbell)"), while
+// our library puts it first ("Dumbbell Bench Press") and leaves barbell
+// implied, so try each spelling in turn
+function candidateNames(name: string): string[] {
+  const candidates = [name];
+  const match = name.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+
+  if (match) {
+    const [, base, equipment] = match;
+    candidates.push(`${equipment} ${base}`);
+    if (/^barbell$/i.test(equipment.trim())) {
+      candidates.push(base);
+    }
+  }
+
+  return candidates.map(normalizeExerciseName);
+}
+
+// An exercise as the matchers see it: its name and any aliases ("OHP")
+type NamedExercise = { name: string; aliases?: string[] };
+
+// Find the library exercise an external name refers to, if any. Exercise
+// names win over aliases, so an alias can never hide a real exercise.
+export function matchExerciseName<T extends NamedExercise>(
+  name: string,
+  exercises: T[]
+): T | null {
+  const byName = new Map([
+    ...exercises.flatMap((exercise) =>
+      (exercise.aliases ?? []).map(
+        (alias) => [normalizeExerciseName(alias), exercise] as const
+      )
+    ),
+    ...exercises.map(
+      (exercise) => [normalizeExerciseName(exercise.name), exercise] as const
+    ),
+  ]);
+
+  for (const candidate of candidateNames(name)) {
+    const exercise = byName.get(candidate);
+    if (exercise) return exercise;
+  }
+
+  return null;
+}
+
+// Number of single-letter edits (insertions, deletions, substitutions) that
+// turn one string into the other
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// How well a typed name matches an exercise name, lower is better, or null
+// for no match. Spaces are ignored so "pullups" finds "Pull-ups" and
+// "bench" finds "Bench Press"; a longer name tolerates a typo or two.
+function scoreExerciseName(query: string, name: string): number | null {
+  const typed = normalizeExerciseName(query);
+  const compactTyped = typed.replace(/ /g, "");
+  const compactName = normalizeExerciseName(name).replace(/ /g, "");
+  if (!compactTyped) return null;
+
+  if (compactName === compactTyped) return 0;
+  if (compactName.startsWith(compactTyped)) return 1;
+
+  const nameWords = normalizeExerciseName(name).split(" ");
+  if (
+    typed
+      .split(" ")
+      .every((word) => nameWords.some((nameWord) => nameWord.startsWith(word)))
+  ) {
+    return 2;
+  }
+  if (compactName.includes(compactTyped)) return 3;
+
+  const allowedTypos = compactTyped.length >= 8 ? 2 : compactTyped.length >= 4 ? 1 : 0;
+  const typos = editDistance(compactTyped, compactName);
+  return typos <= allowedTypos ? 3 + typos : null;
+}
+
+// The best score of an exercise's name and aliases
+function scoreExercise(query: string, exercise: NamedExercise): number | null {
+  const scores = [exercise.name, ...(exercise.aliases ?? [])]
+    .map((name) => scoreExerciseName(query, name))
+    .filter((score) => score !== null);
+
+  return scores.length > 0 ? Math.min(...scores) : null;
+}
+
+// A fuzzy match scoring this or better (a prefix of the name, or of each of
+// its words) is taken without asking, as long as no other exercise ties it
+const CONFIDENT_MATCH_SCORE = 2;
+
+// Most exercises offered when a typed name needs confirming
+const MAX_CANDIDATES = 5;
+
+// Exercises matching a typed name with their scores, best first
+function rankExercises<T extends NamedExercise>(query: string, exercises: T[]) {
+  return exercises
+    .map((exercise) => ({
+      exercise,
+      score: scoreExercise(query, exercise),
+    }))
+    .filter(
+      (match): match is { exercise: T; score: number } => match.score !== null
+    )
+    .sort(
+      (a, b) =>
+        a.score - b.score || a.exercise.name.localeCompare(b.exercise.name)
+    );
+}
+
+// Find the library exercise a name typed by hand means, trying the exact
+// spellings first. A fuzzy match is only taken when it is close and clearly
+// the best; otherwise the closest candidates come back for the user to pick
+// from, and none at all means nothing matched.
+export function findClosestExercise<T extends NamedExercise>(
+  name: string,
+  exercises: T[]
+): { exercise: T | null; candidates: T[] } {
+  const exact = matchExerciseName(name, exercises);
+  if (exact) return { exercise: exact, candidates: [] };
+
+  const matches = rankExercises(name, exercises);
+  const [best, next] = matches;
+  if (
+    best &&
+    best.score <= CONFIDENT_MATCH_SCORE &&
+    next?.score !== best.score
+  ) {
+    return { exercise: best.exercise, candidates: [] };
+  }
+
+  return {
+    exercise: null,
+    candidates: matches.slice(0, MAX_CANDIDATES).map((match) => match.exercise),
+  };
+}
+
+// Library exercises matching a search as it is typed, best matches first
+export function searchExercises<T extends NamedExercise>(
+  query: string,
+  exercises: T[]
+): T[] {
+  return rankExercises(query, exercises).map((match) => match.exercise);
+}
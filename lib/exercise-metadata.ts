@@ -0,0 +1,113 @@
+export const MUSCLE_GROUPS = [
+  "chest",
+  "lats",
+  "upper_back",
+  "lower_back",
+  "traps",
+  "front_delts",
+  "side_delts",
+  "rear_delts",
+  "biceps",
+  "triceps",
+  "forearms",
+  "abs",
+  "obliques",
+  "quads",
+  "hamstrings",
+  "glutes",
+  "calves",
+] as const;
+
+export type MuscleGroup = (typeof MUSCLE_GROUPS)[number];
+
+export const MUSCLE_GROUP_LABELS: Record<MuscleGroup, string> = {
+  chest: "Chest",
+  lats: "Lats",
+  upper_back: "Upper back",
+  lower_back: "Lower back",
+  traps: "Traps",
+  front_delts: "Front delts",
+  side_delts: "Side delts",
+  rear_delts: "Rear delts",
+  biceps: "Biceps",
+  triceps: "Triceps",
+  forearms: "Forearms",
+  abs: "Abs",
+  obliques: "Obliques",
+  quads: "Quads",
+  hamstrings: "Hamstrings",
+  glutes: "Glutes",
+  calves: "Calves",
+};
+
+export const EQUIPMENT = [
+  "barbell",
+  "dumbbell",
+  "cable",
+  "machine",
+  "bodyweight",
+  "kettlebell",
+  "band",
+  "other",
+] as const;
+
+export type Equipment = (typeof EQUIPMENT)[number];
+
+export const EQUIPMENT_LABELS: Record<Equipment, string> = {
+  barbell: "Barbell",
+  dumbbell: "Dumbbell",
+  cable: "Cable",
+  machine: "Machine",
+  bodyweight: "Bodyweight",
+  kettlebell: "Kettlebell",
+  band: "Band",
+  other: "Other",
+};
+
+export const MOVEMENT_PATTERNS = [
+  "horizontal_push",
+  "vertical_push",
+  "horizontal_pull",
+  "vertical_pull",
+  "squat",
+  "hinge",
+  "lunge",
+  "isolation",
+  "core",
+  "carry",
+  "cardio",
+] as const;
+
+export type MovementPattern = (typeof MOVEMENT_PATTERNS)[number];
+
+export const MOVEMENT_PATTERN_LABELS: Record<MovementPattern, string> = {
+  horizontal_push: "Horizontal push",
+  vertical_push: "Vertical push",
+  horizontal_pull: "Horizontal pull",
+  vertical_pull: "Vertical pull",
+  squat: "Squat",
+  hinge: "Hinge",
+  lunge: "Lunge",
+  isolation: "Isolation",
+  core: "Core",
+  carry: "Carry",
+  cardio: "Cardio",
+};
+
+// Group exercises under their first primary muscle, in the order muscle
+// groups are listed above. Exercises with no muscles recorded come last
+// under a null muscle.
+export function groupByPrimaryMuscle<T extends { primaryMuscles: MuscleGroup[] }>(
+  exercises: T[]
+): { muscle: MuscleGroup | null; exercises: T[] }[] {
+  const groups = new Map<MuscleGroup | null, T[]>();
+
+  for (const exercise of exercises) {
+    const muscle = exercise.primaryMuscles[0] ?? null;
+    groups.set(muscle, [...(groups.get(muscle) ?? []), exercise]);
+  }
+
+  return [...MUSCLE_GROUPS, null]
+    .filter((muscle) => groups.has(muscle))
+    .map((muscle) => ({ muscle, exercises: groups.get(muscle)! }));
+}
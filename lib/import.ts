@@ -0,0 +1,263 @@
+import { isValid, parse } from "date-fns";
+import { parseCsv } from "./csv";
+import type { WeightUnit } from "./units";
+import { DEFAULT_SET_TYPE, type SetType } from "./sets";
+import { RPE_VALUES } from "./effort";
+
+export const IMPORT_FORMATS = ["strong", "hevy"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  strong: "Strong",
+  hevy: "Hevy",
+};
+
+export type ImportedSet = {
+  setType: SetType;
+  weight: string | null;
+  weightUnit: WeightUnit;
+  reps: number | null;
+  rpe: number | null;
+};
+
+export type ImportedExercise = {
+  name: string;
+  sets: ImportedSet[];
+};
+
+export type ImportedWorkout = {
+  date: string;
+  name: string | null;
+  notes: string | null;
+  exercises: ImportedExercise[];
+};
+
+export type ParsedImport = {
+  format: ImportFormat;
+  workouts: ImportedWorkout[];
+  // Rows with neither weight nor reps, such as cardio or rest timer entries
+  skippedRows: number;
+};
+
+// A normalised CSV row, whichever app produced it
+type ImportRow = {
+  workoutKey: string;
+  date: string;
+  workoutName: string | null;
+  workoutNotes: string | null;
+  exerciseName: string;
+  setType: SetType;
+  weight: string | null;
+  weightUnit: WeightUnit;
+  reps: number | null;
+  rpe: number | null;
+};
+
+const HEVY_DATE_FORMATS = ["d MMM yyyy, HH:mm", "d MMM yyyy HH:mm"];
+
+function parseDate(value: string): string | null {
+  const isoDate = value.match(/^\d{4}-\d{2}-\d{2}/);
+  if (isoDate) return isoDate[0];
+
+  for (const dateFormat of HEVY_DATE_FORMATS) {
+    const parsed = parse(value.trim(), dateFormat, new Date());
+    if (isValid(parsed)) {
+      return [
+        parsed.getFullYear(),
+        String(parsed.getMonth() + 1).padStart(2, "0"),
+        String(parsed.getDate()).padStart(2, "0"),
+      ].join("-");
+    }
+  }
+
+  return null;
+}
+
+function parseWeight(value: string | undefined): string | null {
+  const weight = Number(value?.trim());
+  if (!value?.trim() || !Number.isFinite(weight) || weight <= 0) return null;
+  return weight.toFixed(2);
+}
+
+function parseReps(value: string | undefined): number | null {
+  const reps = Number(value?.trim());
+  if (!value?.trim() || !Number.isFinite(reps) || reps <= 0) return null;
+  return Math.round(reps);
+}
+
+// Both apps allow RPE ratings we do not track (below 6, or in finer steps),
+// so anything off our scale is dropped rather than guessed at
+function parseRpe(value: string | undefined): number | null {
+  const rpe = Number(value?.trim());
+  if (!value?.trim() || !RPE_VALUES.includes(rpe)) return null;
+  return rpe;
+}
+
+function parseUnit(value: string | undefined, fallback: WeightUnit): WeightUnit {
+  const unit = value?.trim().toLowerCase();
+  if (unit === "kg" || unit === "kgs") return "kg";
+  if (unit === "lb" || unit === "lbs") return "lb";
+  return fallback;
+}
+
+// Strong marks special sets in the Set Order column ("W", "D", "F") and Hevy
+// has a set_type column ("warmup", "dropset", "failure", "normal")
+const IMPORTED_SET_TYPES: Record<string, SetType> = {
+  w: "warmup",
+  warmup: "warmup",
+  d: "drop",
+  dropset: "drop",
+  f: "failure",
+  failure: "failure",
+};
+
+function parseSetType(value: string | undefined): SetType {
+  return IMPORTED_SET_TYPES[value?.trim().toLowerCase() ?? ""] ?? DEFAULT_SET_TYPE;
+}
+
+function emptyToNull(value: string | undefined): string | null {
+  return value?.trim() ? value.trim() : null;
+}
+
+// Work out which app produced a file from its header row
+export function detectImportFormat(header: string[]): ImportFormat | null {
+  const columns = header.map((column) => column.trim());
+
+  if (columns.includes("Exercise Name") && columns.includes("Set Order")) {
+    return "strong";
+  }
+  if (columns.includes("exercise_title") && columns.includes("set_index")) {
+    return "hevy";
+  }
+
+  return null;
+}
+
+// Strong exports weights in whatever unit the app was set to, and only some
+// versions include a unit column, so the lifter's choice is the fallback
+function readStrongRows(
+  records: Record<string, string>[],
+  fallbackUnit: WeightUnit
+): ImportRow[] {
+  return records.map((record) => ({
+    workoutKey: `${record["Date"]}|${record["Workout Name"]}`,
+    date: record["Date"],
+    workoutName: emptyToNull(record["Workout Name"]),
+    workoutNotes: emptyToNull(record["Workout Notes"]),
+    exerciseName: record["Exercise Name"]?.trim() ?? "",
+    setType: parseSetType(record["Set Order"]),
+    weight: parseWeight(record["Weight"]),
+    weightUnit: parseUnit(record["Weight Unit"], fallbackUnit),
+    reps: parseReps(record["Reps"]),
+    rpe: parseRpe(record["RPE"]),
+  }));
+}
+
+// Hevy names the weight column after its unit
+function readHevyRows(records: Record<string, string>[]): ImportRow[] {
+  return records.map((record) => {
+    const weightUnit: WeightUnit = "weight_kg" in record ? "kg" : "lb";
+
+    return {
+      workoutKey: `${record["start_time"]}|${record["title"]}`,
+      date: record["start_time"],
+      workoutName: emptyToNull(record["title"]),
+      workoutNotes: emptyToNull(record["description"]),
+      exerciseName: record["exercise_title"]?.trim() ?? "",
+      setType: parseSetType(record["set_type"]),
+      weight: parseWeight(
+        weightUnit === "kg" ? record["weight_kg"] : record["weight_lbs"]
+      ),
+      weightUnit,
+      reps: parseReps(record["reps"]),
+      rpe: parseRpe(record["rpe"]),
+    };
+  });
+}
+
+// Parse a Strong or Hevy CSV export into workouts. Rows are grouped into
+// workouts by start time and name, and consecutive rows for the same
+// exercise become one exercise entry.
+export function parseWorkoutImport(
+  text: string,
+  fallbackUnit: WeightUnit
+): ParsedImport {
+  const [header, ...lines] = parseCsv(text);
+
+  if (!header) {
+    throw new Error("The file is empty");
+  }
+
+  const format = detectImportFormat(header);
+  if (!format) {
+    throw new Error("Unrecognised file. Upload a Strong or Hevy CSV export.");
+  }
+
+  const columns = header.map((column) => column.trim());
+  const records = lines.map((fields) =>
+    Object.fromEntries(columns.map((column, i) => [column, fields[i] ?? ""]))
+  );
+  const rows =
+    format === "strong"
+      ? readStrongRows(records, fallbackUnit)
+      : readHevyRows(records);
+
+  const workouts = new Map<string, ImportedWorkout>();
+  let skippedRows = 0;
+
+  rows.forEach((row, index) => {
+    const date = parseDate(row.date);
+    if (!date) {
+      // Data rows start on line 2 of the file
+      throw new Error(`Invalid date "${row.date}" on line ${index + 2}`);
+    }
+
+    if (!row.exerciseName || (row.weight === null && row.reps === null)) {
+      skippedRows++;
+      return;
+    }
+
+    if (!workouts.has(row.workoutKey)) {
+      workouts.set(row.workoutKey, {
+        date,
+        name: row.workoutName,
+        notes: row.workoutNotes,
+        exercises: [],
+      });
+    }
+
+    const workout = workouts.get(row.workoutKey)!;
+    const lastExercise = workout.exercises[workout.exercises.length - 1];
+    const exercise =
+      lastExercise?.name === row.exerciseName
+        ? lastExercise
+        : { name: row.exerciseName, sets: [] };
+
+    if (exercise !== lastExercise) {
+      workout.exercises.push(exercise);
+    }
+
+    exercise.sets.push({
+      setType: row.setType,
+      weight: row.weight,
+      weightUnit: row.weightUnit,
+      reps: row.reps,
+      rpe: row.rpe,
+    });
+  });
+
+  return {
+    format,
+    workouts: Array.from(workouts.values()),
+    skippedRows,
+  };
+}
+
+// Key used to spot a workout that has already been logged
+export function workoutDuplicateKey(workout: {
+  date: string;
+  name: string | null;
+}): string {
+  return `${workout.date}|${workout.name?.trim().toLowerCase() ?? ""}`;
+}
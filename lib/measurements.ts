@@ -0,0 +1,120 @@
+import { formatClock } from "./sessions";
+import { WEIGHT_UNIT_LABELS, type WeightUnit } from "./units";
+
+export const MEASUREMENT_TYPES = [
+  "weight_reps",
+  "reps",
+  "bodyweight",
+  "duration",
+  "distance_duration",
+] as const;
+
+export type MeasurementType = (typeof MEASUREMENT_TYPES)[number];
+
+export const DEFAULT_MEASUREMENT_TYPE: MeasurementType = "weight_reps";
+
+export const MEASUREMENT_TYPE_LABELS: Record<MeasurementType, string> = {
+  weight_reps: "Weight × reps",
+  reps: "Reps only",
+  bodyweight: "Bodyweight + added weight",
+  duration: "Duration",
+  distance_duration: "Distance + duration",
+};
+
+export const SET_FIELDS = ["weight", "reps", "distance", "durationSeconds"] as const;
+
+export type SetField = (typeof SET_FIELDS)[number];
+
+export const SET_FIELD_NAMES: Record<SetField, string> = {
+  weight: "weight",
+  reps: "reps",
+  distance: "distance",
+  durationSeconds: "duration",
+};
+
+// The values logged for each measurement type, in display order
+export const MEASUREMENT_FIELDS: Record<MeasurementType, SetField[]> = {
+  weight_reps: ["weight", "reps"],
+  reps: ["reps"],
+  bodyweight: ["weight", "reps"],
+  duration: ["durationSeconds"],
+  distance_duration: ["distance", "durationSeconds"],
+};
+
+// Column heading for a set value. Bodyweight exercises log only the weight
+// added on top, so a bare bodyweight set has no weight at all.
+export function setFieldLabel(
+  field: SetField,
+  measurementType: MeasurementType,
+  weightUnit: WeightUnit
+): string {
+  switch (field) {
+    case "weight":
+      return measurementType === "bodyweight"
+        ? `Added (${WEIGHT_UNIT_LABELS[weightUnit]})`
+        : `Weight (${WEIGHT_UNIT_LABELS[weightUnit]})`;
+    case "reps":
+      return "Reps";
+    case "distance":
+      return "Distance (m)";
+    case "durationSeconds":
+      return "Time";
+  }
+}
+
+// Find a value that was logged but does not belong to the exercise's
+// measurement type, such as a weight on a plank
+export function findInvalidSetField(
+  measurementType: MeasurementType,
+  values: Partial<Record<SetField, unknown>>
+): SetField | null {
+  const allowed = MEASUREMENT_FIELDS[measurementType];
+
+  return (
+    SET_FIELDS.find(
+      (field) =>
+        values[field] !== undefined &&
+        values[field] !== null &&
+        !allowed.includes(field)
+    ) ?? null
+  );
+}
+
+// Parse a duration typed as seconds ("90"), minutes and seconds ("1:30") or
+// hours, minutes and seconds ("1:02:30")
+export function parseDuration(value: string): number | null {
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) {
+    return null;
+  }
+
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+// One-line description of a set for read-only views, e.g. "BW + 20 × 8"
+export function formatSetValues(
+  measurementType: MeasurementType,
+  set: {
+    weight: string | null;
+    reps: number | null;
+    distance: number | null;
+    durationSeconds: number | null;
+  }
+): string {
+  const reps = set.reps ?? "-";
+  const duration =
+    set.durationSeconds !== null ? formatClock(set.durationSeconds) : "-";
+
+  switch (measurementType) {
+    case "weight_reps":
+      return `${set.weight ?? "-"} × ${reps}`;
+    case "reps":
+      return `${reps} reps`;
+    case "bodyweight":
+      return set.weight ? `BW + ${set.weight} × ${reps}` : `BW × ${reps}`;
+    case "duration":
+      return duration;
+    case "distance_duration":
+      return `${set.distance ?? "-"} m in ${duration}`;
+  }
+}
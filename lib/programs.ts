@@ -0,0 +1,53 @@
+import { addDays, format } from "date-fns";
+import type { WeightUnit } from "./units";
+
+export const PROGRESSION_TYPES = ["percentage", "load"] as const;
+
+export type ProgressionType = (typeof PROGRESSION_TYPES)[number];
+
+export type ProgressionRule = {
+  type: ProgressionType;
+  value: number;
+};
+
+// Loads are rounded to the smallest common plate jump in each unit
+const LOAD_INCREMENTS: Record<WeightUnit, number> = { kg: 2.5, lb: 5 };
+
+// Apply a week's progression rule to a template's target weight, given in
+// weightUnit. "percentage" scales the target (e.g. 85 = 85% of target),
+// "load" adds to it.
+export function applyProgression(
+  targetWeight: string | null,
+  rule: ProgressionRule,
+  weightUnit: WeightUnit
+): string | null {
+  if (targetWeight === null) return null;
+
+  const base = Number(targetWeight);
+  const adjusted =
+    rule.type === "percentage" ? (base * rule.value) / 100 : base + rule.value;
+  const increment = LOAD_INCREMENTS[weightUnit];
+  const rounded = Math.round(adjusted / increment) * increment;
+
+  return Math.max(rounded, 0).toFixed(2);
+}
+
+// Expand weekly session slots into dated sessions for every program week
+export function buildSessionSchedule(data: {
+  startDate: string;
+  weeks: number;
+  slots: { templateId: number; dayOffset: number }[];
+}) {
+  const start = new Date(`${data.startDate}T00:00:00`);
+
+  return Array.from({ length: data.weeks }, (_, weekIndex) =>
+    data.slots.map((slot) => ({
+      templateId: slot.templateId,
+      weekNumber: weekIndex + 1,
+      scheduledDate: format(
+        addDays(start, weekIndex * 7 + slot.dayOffset),
+        "yyyy-MM-dd"
+      ),
+    }))
+  ).flat();
+}
@@ -0,0 +1,132 @@
+import type { WeightUnit } from "./units";
+
+// A set typed in shorthand. Weights keep the unit they were typed in, or
+// null to use the user's preferred unit.
+export type QuickLogSet = {
+  weight: string | null;
+  weightUnit: WeightUnit | null;
+  reps: number;
+  // Logged as "bw" or "bw+25": the weight, if any, is added to bodyweight
+  bodyweight: boolean;
+};
+
+export type QuickLogEntry = {
+  name: string;
+  sets: QuickLogSet[];
+};
+
+// A lone "AxB" with no weight reads as A sets of B reps up to this many
+// sets, and as A weight for B reps above it ("pushups 3x20", "squat 315x5")
+const MAX_SET_COUNT = 10;
+
+// Guards against a typo such as "35x5 @ 225" creating 35 sets
+const MAX_SETS_PER_ENTRY = 20;
+
+const MAX_WEIGHT = 9999.99;
+
+const NUMBER = String.raw`\d+(?:\.\d+)?`;
+const LOAD = String.raw`bw(?:\s*\+\s*${NUMBER}\s*(?:kg|lbs?)?)?|${NUMBER}\s*(?:kg|lbs?)?`;
+
+// "3x5 @ 225", "4x10 bw+25" or a bare "3x5"
+const SETS_OF_REPS = new RegExp(
+  String.raw`^(\d+)\s*x\s*(\d+)(?:(?:\s*@\s*|\s+)(${LOAD}))?$`
+);
+// "315x5", "100kg x 5" or "bw+45x3"
+const LOAD_FOR_REPS = new RegExp(String.raw`^(${LOAD})\s*x\s*(\d+)$`);
+// Where the sets start: the first "AxB" after the exercise name
+const FIRST_SET = new RegExp(String.raw`\s(?:bw\b|${NUMBER}\s*(?:kg|lbs?)?\s*x\s*\d)`);
+
+type Load = Pick<QuickLogSet, "weight" | "weightUnit" | "bodyweight">;
+
+function parseLoad(value: string): Load | null {
+  const match = value.match(
+    new RegExp(String.raw`^(bw)?\s*\+?\s*(${NUMBER})?\s*(kg|lbs?)?$`)
+  );
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const [, bodyweight, number, unit] = match;
+  const weight = number !== undefined ? Number(number) : null;
+  if (weight !== null && weight > MAX_WEIGHT) return null;
+
+  return {
+    weight: weight ? weight.toFixed(2) : null,
+    weightUnit: unit ? (unit === "kg" ? "kg" : "lb") : null,
+    bodyweight: bodyweight !== undefined,
+  };
+}
+
+function parseItem(item: string, isOnlyItem: boolean): QuickLogSet[] | null {
+  const setsOfReps = item.match(SETS_OF_REPS);
+  if (setsOfReps) {
+    const [, first, second, load] = setsOfReps;
+
+    if (load || (isOnlyItem && Number(first) <= MAX_SET_COUNT)) {
+      const parsedLoad = load
+        ? parseLoad(load)
+        : { weight: null, weightUnit: null, bodyweight: false };
+      if (!parsedLoad || Number(first) < 1) return null;
+
+      return Array.from({ length: Number(first) }, () => ({
+        ...parsedLoad,
+        reps: Number(second),
+      }));
+    }
+  }
+
+  const loadForReps = item.match(LOAD_FOR_REPS);
+  if (loadForReps) {
+    const load = parseLoad(loadForReps[1]);
+    if (!load) return null;
+    return [{ ...load, reps: Number(loadForReps[2]) }];
+  }
+
+  return null;
+}
+
+// Parse one exercise per line, e.g. "Bench Press 3x5 @ 225",
+// "squat 315x5, 335x3, 355x1" or "pullups 4x10 bw+25". Blank lines are
+// ignored; anything unreadable throws naming the line.
+export function parseQuickLog(text: string): QuickLogEntry[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (lines.length === 0) {
+    throw new Error("Enter at least one exercise");
+  }
+
+  return lines.map((line) => {
+    const normalized = line.toLowerCase().replace(/×/g, "x");
+    const start = normalized.search(FIRST_SET);
+    const name = start > 0 ? line.slice(0, start).trim() : "";
+    const items =
+      start > 0
+        ? normalized
+            .slice(start)
+            .split(",")
+            .map((item) => item.trim())
+        : [];
+
+    const parsedSets = items.map((item) => parseItem(item, items.length === 1));
+    const sets = parsedSets.every((set) => set !== null)
+      ? parsedSets.flat()
+      : [];
+
+    if (!name || sets.length === 0) {
+      throw new Error(
+        `Could not read "${line}". Try "Bench Press 3x5 @ 225" or "Squat 315x5, 335x3".`
+      );
+    }
+    if (sets.length > MAX_SETS_PER_ENTRY) {
+      throw new Error(
+        `"${line}" has ${sets.length} sets; log at most ${MAX_SETS_PER_ENTRY} per exercise`
+      );
+    }
+    if (sets.some((set) => set.reps < 1)) {
+      throw new Error(`"${line}" has a set with no reps`);
+    }
+
+    return { name, sets };
+  });
+}
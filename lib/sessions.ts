@@ -0,0 +1,87 @@
+import type { PersonalRecords } from "./strength";
+import { countsTowardTotals, type SetType } from "./sets";
+import { MEASUREMENT_FIELDS, type MeasurementType } from "./measurements";
+
+export type WorkoutSummary = {
+  // Null until the session has been started and finished
+  durationMs: number | null;
+  totalVolume: number;
+  setCount: number;
+  prCount: number;
+};
+
+// Summarise a workout for its finish screen and dashboard card. A set counts
+// once any of its exercise's values is logged, and warm-ups are excluded.
+// Volume only comes from sets with both weight and reps, matching how
+// records are calculated.
+export function summarizeWorkout(
+  workout: {
+    startedAt: Date | null;
+    completedAt: Date | null;
+    exercises: {
+      id: number;
+      measurementType: MeasurementType;
+      sets: {
+        id: number;
+        setType: SetType;
+        weight: string | null;
+        reps: number | null;
+        distance: number | null;
+        durationSeconds: number | null;
+      }[];
+    }[];
+  },
+  personalRecords: PersonalRecords
+): WorkoutSummary {
+  let totalVolume = 0;
+  let setCount = 0;
+  let prCount = 0;
+
+  for (const exercise of workout.exercises) {
+    if (personalRecords.volume.includes(exercise.id)) prCount++;
+
+    const fields = MEASUREMENT_FIELDS[exercise.measurementType];
+
+    for (const set of exercise.sets) {
+      if (!fields.some((field) => set[field] !== null)) continue;
+      if (!countsTowardTotals(set.setType)) continue;
+
+      setCount++;
+      if (personalRecords.sets[set.id]) prCount++;
+      if (set.weight !== null && set.reps !== null) {
+        totalVolume += Number(set.weight) * set.reps;
+      }
+    }
+  }
+
+  return {
+    durationMs:
+      workout.startedAt && workout.completedAt
+        ? workout.completedAt.getTime() - workout.startedAt.getTime()
+        : null,
+    totalVolume: Math.round(totalVolume),
+    setCount,
+    prCount,
+  };
+}
+
+// Format a duration as "1h 05m" or "42m"
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  return hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, "0")}m`
+    : `${minutes}m`;
+}
+
+// Format seconds as a running clock, "1:02:03" or "02:03"
+export function formatClock(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const clock = `${String(minutes).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+
+  return hours > 0 ? `${hours}:${clock}` : clock;
+}
@@ -0,0 +1,27 @@
+export const SET_TYPES = ["warmup", "working", "drop", "failure", "amrap"] as const;
+
+export type SetType = (typeof SET_TYPES)[number];
+
+export const DEFAULT_SET_TYPE: SetType = "working";
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: "Warm-up",
+  working: "Working",
+  drop: "Drop set",
+  failure: "Failure",
+  amrap: "AMRAP",
+};
+
+// Compact marker shown in place of or next to the set number
+export const SET_TYPE_SHORT_LABELS: Record<SetType, string | null> = {
+  warmup: "W",
+  working: null,
+  drop: "D",
+  failure: "F",
+  amrap: "A",
+};
+
+// Warm-ups are logged for reference but left out of volume and records
+export function countsTowardTotals(setType: SetType): boolean {
+  return setType !== "warmup";
+}
@@ -0,0 +1,34 @@
+import type { Day } from "date-fns";
+import type { E1rmFormula } from "./strength";
+import { DEFAULT_WEIGHT_UNIT, type WeightUnit } from "./units";
+
+export const WEEK_START_DAYS = [0, 1, 2, 3, 4, 5, 6] as const satisfies Day[];
+
+export type WeekStartDay = (typeof WEEK_START_DAYS)[number];
+
+export const WEEK_START_DAY_LABELS: Record<WeekStartDay, string> = {
+  0: "Sunday",
+  1: "Monday",
+  2: "Tuesday",
+  3: "Wednesday",
+  4: "Thursday",
+  5: "Friday",
+  6: "Saturday",
+};
+
+export type UserSettings = {
+  weightUnit: WeightUnit;
+  defaultRestSeconds: number;
+  weekStartsOn: WeekStartDay;
+  e1rmFormula: E1rmFormula;
+  defaultSetCount: number;
+};
+
+// Used for anyone who has never saved their settings
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  weightUnit: DEFAULT_WEIGHT_UNIT,
+  defaultRestSeconds: 90,
+  weekStartsOn: 0,
+  e1rmFormula: "epley",
+  defaultSetCount: 3,
+};
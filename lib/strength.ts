@@ -0,0 +1,192 @@
+import { effectiveRpe, rpeChartPercentage } from "./effort";
+
+export const E1RM_FORMULAS = ["epley", "brzycki"] as const;
+
+export type E1rmFormula = (typeof E1RM_FORMULAS)[number];
+
+export const E1RM_FORMULA_LABELS: Record<E1rmFormula, string> = {
+  epley: "Epley",
+  brzycki: "Brzycki",
+};
+
+export const PERSONAL_RECORD_TYPES = ["e1rm", "rep-max", "volume"] as const;
+
+export type PersonalRecordType = (typeof PERSONAL_RECORD_TYPES)[number];
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  e1rm: "Estimated 1RM",
+  "rep-max": "Rep max",
+  volume: "Session volume",
+};
+
+// Estimate a one-rep max from a single set
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: E1rmFormula = "epley"
+): number {
+  if (reps <= 0 || weight <= 0) return 0;
+  if (reps === 1) return weight;
+
+  switch (formula) {
+    case "epley":
+      return weight * (1 + reps / 30);
+    case "brzycki":
+      // Brzycki breaks down past ~36 reps; clamp to keep the estimate finite
+      return (weight * 36) / (37 - Math.min(reps, 36));
+  }
+}
+
+// Estimate a one-rep max from a logged set. Sets with an RPE or RIR are read
+// off the RPE chart, so a triple at RPE 8 counts for more than a triple taken
+// to failure; sets without effort, or beyond the chart, use the formula.
+export function estimateSetOneRepMax(
+  set: { weight: number; reps: number; rpe: number | null; rir: number | null },
+  formula: E1rmFormula = "epley"
+): number {
+  const rpe = effectiveRpe(set);
+  const percentage =
+    rpe !== null && set.weight > 0 ? rpeChartPercentage(set.reps, rpe) : null;
+
+  return percentage !== null
+    ? set.weight / percentage
+    : estimateOneRepMax(set.weight, set.reps, formula);
+}
+
+export type HistorySet = {
+  setId: number;
+  workoutExerciseId: number;
+  exerciseId: number;
+  weight: number;
+  reps: number;
+  rpe: number | null;
+  rir: number | null;
+};
+
+export type PersonalRecords = {
+  // Record types hit by each set, keyed by set id
+  sets: Record<number, PersonalRecordType[]>;
+  // Workout exercises whose total volume beat every earlier session
+  volume: number[];
+};
+
+// Walk a chronologically ordered set history and flag every set that beat
+// the records for its exercise from earlier sessions. Sets are only compared
+// against earlier sessions, never against sets from the same one, so the
+// first session of an exercise only establishes the baseline and never
+// produces records on its own.
+export function findPersonalRecords(
+  history: HistorySet[],
+  formula: E1rmFormula = "epley"
+): PersonalRecords {
+  const records: PersonalRecords = { sets: {}, volume: [] };
+
+  const bestE1rm = new Map<number, number>();
+  const bestWeightByReps = new Map<number, Map<number, number>>();
+  const bestVolume = new Map<number, number>();
+
+  // Map iteration follows insertion order, which is chronological here
+  const sessions = new Map<number, HistorySet[]>();
+  for (const set of history) {
+    sessions.set(set.workoutExerciseId, [
+      ...(sessions.get(set.workoutExerciseId) ?? []),
+      set,
+    ]);
+  }
+
+  for (const [workoutExerciseId, sessionSets] of sessions) {
+    const exerciseId = sessionSets[0].exerciseId;
+    if (!bestWeightByReps.has(exerciseId)) {
+      bestWeightByReps.set(exerciseId, new Map());
+    }
+    const repMaxes = bestWeightByReps.get(exerciseId)!;
+    const previousE1rm = bestE1rm.get(exerciseId);
+    const previousRepMaxes = new Map(repMaxes);
+    const previousVolume = bestVolume.get(exerciseId);
+
+    let volume = 0;
+    for (const set of sessionSets) {
+      const types: PersonalRecordType[] = [];
+
+      const e1rm = estimateSetOneRepMax(set, formula);
+      if (previousE1rm !== undefined && e1rm > previousE1rm) {
+        types.push("e1rm");
+      }
+
+      const previousRepMax = previousRepMaxes.get(set.reps);
+      if (previousRepMax !== undefined && set.weight > previousRepMax) {
+        types.push("rep-max");
+      }
+
+      if (types.length > 0) {
+        records.sets[set.setId] = types;
+      }
+
+      // The session's sets only become the bar for later sessions
+      if (e1rm > (bestE1rm.get(exerciseId) ?? -Infinity)) {
+        bestE1rm.set(exerciseId, e1rm);
+      }
+      if (set.weight > (repMaxes.get(set.reps) ?? -Infinity)) {
+        repMaxes.set(set.reps, set.weight);
+      }
+      volume += set.weight * set.reps;
+    }
+
+    if (previousVolume !== undefined && volume > previousVolume) {
+      records.volume.push(workoutExerciseId);
+    }
+    if (previousVolume === undefined || volume > previousVolume) {
+      bestVolume.set(exerciseId, volume);
+    }
+  }
+
+  return records;
+}
+
+export type SessionSummary = {
+  workoutExerciseId: number;
+  topSetWeight: number;
+  bestE1rm: number;
+  totalVolume: number;
+};
+
+// Summarise each session (workout exercise) in a set history
+export function summarizeSessions(
+  history: HistorySet[],
+  formula: E1rmFormula = "epley"
+): SessionSummary[] {
+  const sessions = new Map<number, SessionSummary>();
+
+  for (const set of history) {
+    const session = sessions.get(set.workoutExerciseId) ?? {
+      workoutExerciseId: set.workoutExerciseId,
+      topSetWeight: 0,
+      bestE1rm: 0,
+      totalVolume: 0,
+    };
+
+    session.topSetWeight = Math.max(session.topSetWeight, set.weight);
+    session.bestE1rm = Math.max(
+      session.bestE1rm,
+      estimateSetOneRepMax(set, formula)
+    );
+    session.totalVolume += set.weight * set.reps;
+
+    sessions.set(set.workoutExerciseId, session);
+  }
+
+  return Array.from(sessions.values());
+}
+
+// Best weight lifted at each rep count, ordered by reps
+export function getRepMaxes(history: HistorySet[]) {
+  const repMaxes = new Map<number, number>();
+
+  for (const set of history) {
+    repMaxes.set(set.reps, Math.max(repMaxes.get(set.reps) ?? 0, set.weight));
+  }
+
+  return Array.from(repMaxes, ([reps, weight]) => ({ reps, weight })).sort(
+    (a, b) => a.reps - b.reps
+  );
+}
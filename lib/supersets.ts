@@ -0,0 +1,79 @@
+// Two exercises done back to back are a superset; three or more a circuit
+export function groupLabel(size: number): string {
+  return size > 2 ? "Circuit" : "Superset";
+}
+
+// Split a workout's ordered exercises into groups. Consecutive exercises
+// sharing a superset group number form one group; everything else stands
+// alone as a group of one.
+export function groupWorkoutExercises<
+  T extends { supersetGroup: number | null },
+>(exercises: T[]): T[][] {
+  const groups: T[][] = [];
+
+  for (const exercise of exercises) {
+    const lastGroup = groups[groups.length - 1];
+    const previous = lastGroup?.[lastGroup.length - 1];
+
+    if (
+      exercise.supersetGroup !== null &&
+      previous?.supersetGroup === exercise.supersetGroup
+    ) {
+      lastGroup.push(exercise);
+    } else {
+      groups.push([exercise]);
+    }
+  }
+
+  return groups;
+}
+
+// Superset group numbers after a workout's exercises have been put in a new
+// order. A group only survives where its members are still next to each
+// other: a member left on its own leaves the group, and a group split into
+// two runs gives the later run a new number.
+export function regroupSupersets(
+  exercises: { id: number; supersetGroup: number | null }[]
+): Map<number, number | null> {
+  const groups = new Map<number, number | null>();
+  const seen = new Set<number>();
+  let highest = Math.max(0, ...exercises.map((e) => e.supersetGroup ?? 0));
+
+  for (const run of groupWorkoutExercises(exercises)) {
+    let group = run.length > 1 ? run[0].supersetGroup : null;
+    if (group !== null) {
+      if (seen.has(group)) group = ++highest;
+      seen.add(group);
+    }
+
+    for (const exercise of run) {
+      groups.set(exercise.id, group);
+    }
+  }
+
+  return groups;
+}
+
+// Work out where a session goes after a set is completed: the next exercise
+// in the group that still has sets to do, taken round-robin, and whether the
+// round is over so it is time to rest. A lone exercise always ends its round.
+export function nextInGroup(
+  group: { id: number; sets: { id: number; completedAt: Date | null }[] }[],
+  workoutExerciseId: number,
+  completedSetId: number
+): { nextId: number | null; endOfRound: boolean } {
+  const index = group.findIndex((exercise) => exercise.id === workoutExerciseId);
+  const hasSetsLeft = (exercise: (typeof group)[number]) =>
+    exercise.sets.some(
+      (set) => set.completedAt === null && set.id !== completedSetId
+    );
+
+  for (let step = 1; step <= group.length; step++) {
+    const next = group[(index + step) % group.length];
+    if (hasSetsLeft(next)) {
+      return { nextId: next.id, endOfRound: index + step >= group.length };
+    }
+  }
+
+  return { nextId: null, endOfRound: true };
+}
@@ -0,0 +1,38 @@
+export const WEIGHT_UNITS = ["lb", "kg"] as const;
+
+export type WeightUnit = (typeof WEIGHT_UNITS)[number];
+
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = "lb";
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  lb: "lbs",
+  kg: "kg",
+};
+
+const KG_PER_LB = 0.45359237;
+
+export function convertWeight(
+  value: number,
+  from: WeightUnit,
+  to: WeightUnit
+): number {
+  if (from === to) return value;
+
+  return from === "lb" ? value * KG_PER_LB : value / KG_PER_LB;
+}
+
+// Convert a stored decimal weight, keeping the two-decimal column format
+export function convertDecimalWeight(
+  weight: string | null,
+  from: WeightUnit,
+  to: WeightUnit
+): string | null {
+  if (weight === null || from === to) return weight;
+
+  return convertWeight(Number(weight), from, to).toFixed(2);
+}
+
+// Round a converted weight to the two decimals the database stores
+export function roundWeight(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,78 @@
+import { addWeeks, format, parseISO, startOfWeek } from "date-fns";
+import { MUSCLE_GROUPS, type MuscleGroup } from "./exercise-metadata";
+import type { WeekStartDay } from "./settings";
+
+// How many weeks the volume dashboard can show at once
+export const VOLUME_WEEK_OPTIONS = [4, 8, 12] as const;
+
+export type VolumeWeekOption = (typeof VOLUME_WEEK_OPTIONS)[number];
+
+export const DEFAULT_VOLUME_WEEKS: VolumeWeekOption = 4;
+
+// Weekly hard sets a muscle should get
+export type VolumeTarget = { minSets: number; maxSets: number };
+
+// A common starting range for hypertrophy, used until the user sets their own
+export const DEFAULT_VOLUME_TARGET: VolumeTarget = { minSets: 10, maxSets: 20 };
+
+export const MAX_VOLUME_TARGET_SETS = 50;
+
+// A secondary muscle gets half the credit of a primary mover
+const SECONDARY_MUSCLE_SHARE = 0.5;
+
+export type VolumeStatus = "under" | "within" | "over";
+
+export function volumeStatus(sets: number, target: VolumeTarget): VolumeStatus {
+  if (sets < target.minSets) return "under";
+  if (sets > target.maxSets) return "over";
+  return "within";
+}
+
+// Start dates (yyyy-MM-dd) of the given number of weeks, oldest first and
+// ending with the week containing today. Today is the user's local date,
+// not the server's.
+export function recentWeekStarts(
+  weeks: number,
+  weekStartsOn: WeekStartDay,
+  today: Date
+): string[] {
+  const thisWeek = startOfWeek(today, { weekStartsOn });
+
+  return Array.from({ length: weeks }, (_, i) =>
+    format(addWeeks(thisWeek, i - weeks + 1), "yyyy-MM-dd")
+  );
+}
+
+// Add up hard sets per muscle for each week. Every set counts once towards
+// each primary muscle and half towards each secondary muscle.
+export function weeklyMuscleVolume(
+  rows: {
+    date: string;
+    setCount: number;
+    primaryMuscles: MuscleGroup[];
+    secondaryMuscles: MuscleGroup[];
+  }[],
+  weekStarts: string[],
+  weekStartsOn: WeekStartDay
+): Record<MuscleGroup, number[]> {
+  const volume = Object.fromEntries(
+    MUSCLE_GROUPS.map((muscle) => [muscle, weekStarts.map(() => 0)])
+  ) as Record<MuscleGroup, number[]>;
+
+  for (const row of rows) {
+    const week = weekStarts.indexOf(
+      format(startOfWeek(parseISO(row.date), { weekStartsOn }), "yyyy-MM-dd")
+    );
+    if (week === -1) continue;
+
+    for (const muscle of row.primaryMuscles) {
+      volume[muscle][week] += row.setCount;
+    }
+    for (const muscle of row.secondaryMuscles) {
+      if (row.primaryMuscles.includes(muscle)) continue;
+      volume[muscle][week] += row.setCount * SECONDARY_MUSCLE_SHARE;
+    }
+  }
+
+  return volume;
+}
@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // History imports send the whole exported CSV to a server action
+      bodySizeLimit: "10mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,141 @@
+import "dotenv/config";
+import { db } from "@/db";
+import {
+  exerciseAliases,
+  exerciseRestTimes,
+  exercises,
+  templateExercises,
+  workoutExercises,
+} from "@/db/schema";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+
+// Fold one exercise into another:
+//
+//   npm run merge:exercises -- "Military Press" "Overhead Press"
+//
+// Exercises are given by id or by shared library name. Every workout and
+// template entry is repointed, rest times and aliases move across, and the
+// merged exercise's name is kept as an alias so searches and imports still
+// find it. Aliases are visible to everyone who can see the exercise, so a
+// custom exercise merged into the shared library leaves its names behind.
+// Everything happens in one transaction.
+async function findExercise(idOrName: string) {
+  const [exercise] = await db
+    .select()
+    .from(exercises)
+    .where(
+      /^\d+$/.test(idOrName)
+        ? eq(exercises.id, Number(idOrName))
+        : and(eq(exercises.name, idOrName), isNull(exercises.userId))
+    )
+    .limit(1);
+
+  if (!exercise) {
+    throw new Error(`Exercise "${idOrName}" not found`);
+  }
+
+  return exercise;
+}
+
+async function mergeExercises(fromArg: string, intoArg: string) {
+  const from = await findExercise(fromArg);
+  const into = await findExercise(intoArg);
+
+  if (from.id === into.id) {
+    throw new Error("Cannot merge an exercise into itself");
+  }
+
+  // Anyone who could see the merged exercise must still see the result
+  if (into.userId !== null && into.userId !== from.userId) {
+    throw new Error(
+      `"${into.name}" belongs to another user; merge into a shared exercise instead`
+    );
+  }
+
+  console.log(`Merging "${from.name}" (${from.id}) into "${into.name}" (${into.id})...`);
+
+  // Only carry names across when both exercises have the same owner
+  const keepAliases = from.userId === into.userId;
+
+  const intoRestTimeUsers = db
+    .select({ userId: exerciseRestTimes.userId })
+    .from(exerciseRestTimes)
+    .where(eq(exerciseRestTimes.exerciseId, into.id));
+  const intoAliases = db
+    .select({ alias: exerciseAliases.alias })
+    .from(exerciseAliases)
+    .where(eq(exerciseAliases.exerciseId, into.id));
+
+  const [workoutRows, templateRows] = await db.batch([
+    db
+      .update(workoutExercises)
+      .set({ exerciseId: into.id })
+      .where(eq(workoutExercises.exerciseId, from.id))
+      .returning({ id: workoutExercises.id }),
+    db
+      .update(templateExercises)
+      .set({ exerciseId: into.id })
+      .where(eq(templateExercises.exerciseId, from.id))
+      .returning({ id: templateExercises.id }),
+    // A user's rest time for the kept exercise wins over the merged one
+    db
+      .delete(exerciseRestTimes)
+      .where(
+        and(
+          eq(exerciseRestTimes.exerciseId, from.id),
+          inArray(exerciseRestTimes.userId, intoRestTimeUsers)
+        )
+      ),
+    db
+      .update(exerciseRestTimes)
+      .set({ exerciseId: into.id })
+      .where(eq(exerciseRestTimes.exerciseId, from.id)),
+    ...(keepAliases
+      ? [
+          db
+            .delete(exerciseAliases)
+            .where(
+              and(
+                eq(exerciseAliases.exerciseId, from.id),
+                inArray(exerciseAliases.alias, intoAliases)
+              )
+            ),
+          db
+            .update(exerciseAliases)
+            .set({ exerciseId: into.id })
+            .where(eq(exerciseAliases.exerciseId, from.id)),
+          db
+            .insert(exerciseAliases)
+            .values({ exerciseId: into.id, alias: from.name })
+            .onConflictDoNothing(),
+        ]
+      : []),
+    // Any aliases still on the merged exercise are deleted with it
+    db.delete(exercises).where(eq(exercises.id, from.id)),
+  ]);
+
+  console.log(`✓ ${workoutRows.length} workout exercises repointed`);
+  console.log(`✓ ${templateRows.length} template exercises repointed`);
+  if (keepAliases) {
+    console.log(`✓ "${from.name}" is now an alias of "${into.name}"`);
+  }
+}
+
+const [fromArg, intoArg] = process.argv.slice(2);
+
+if (!fromArg || !intoArg) {
+  console.error(
+    'Usage: npm run merge:exercises -- <from id or name> <into id or name>'
+  );
+  process.exit(1);
+}
+
+mergeExercises(fromArg, intoArg)
+  .then(() => {
+    console.log("\nMerge completed");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Merge failed:", error);
+    process.exit(1);
+  });
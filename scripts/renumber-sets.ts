@@ -0,0 +1,45 @@
+import "dotenv/config";
+import { neon } from "@neondatabase/serverless";
+
+const sql = neon(process.env.DATABASE_URL!);
+
+// Sets deleted before numbering was handled on the server can leave gaps or
+// duplicate numbers. Run this before pushing the unique constraint on
+// (workout_exercise_id, set_number).
+async function renumberSets() {
+  console.log("Renumbering sets...\n");
+
+  try {
+    const updated = await sql`
+      UPDATE sets
+      SET set_number = numbered.position
+      FROM (
+        SELECT
+          id,
+          ROW_NUMBER() OVER (
+            PARTITION BY workout_exercise_id
+            ORDER BY set_number, id
+          ) AS position
+        FROM sets
+      ) AS numbered
+      WHERE sets.id = numbered.id
+        AND sets.set_number <> numbered.position
+      RETURNING sets.id;
+    `;
+
+    console.log(`✓ ${updated.length} sets renumbered`);
+  } catch (error) {
+    console.error("Error renumbering sets:", error);
+    throw error;
+  }
+}
+
+renumberSets()
+  .then(() => {
+    console.log("\nSet renumbering completed");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Set renumbering failed:", error);
+    process.exit(1);
+  });
@@ -1,83 +1,476 @@
 import "dotenv/config";
 import { db } from "@/db";
-import { exercises } from "@/db/schema";
+import { exerciseAliases, exercises } from "@/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import type { MeasurementType } from "@/lib/measurements";
+import type {
+  Equipment,
+  MovementPattern,
+  MuscleGroup,
+} from "@/lib/exercise-metadata";
 
-const commonExercises = [
+const commonExercises: {
+  name: string;
+  measurementType?: MeasurementType;
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+  equipment: Equipment;
+  movementPattern: MovementPattern;
+  unilateral?: boolean;
+}[] = [
   // Chest
-  "Bench Press",
-  "Incline Bench Press",
-  "Decline Bench Press",
-  "Dumbbell Bench Press",
-  "Dumbbell Flyes",
-  "Push-ups",
-  "Cable Flyes",
+  {
+    name: "Bench Press",
+    primaryMuscles: ["chest"],
+    secondaryMuscles: ["front_delts", "triceps"],
+    equipment: "barbell",
+    movementPattern: "horizontal_push",
+  },
+  {
+    name: "Incline Bench Press",
+    primaryMuscles: ["chest", "front_delts"],
+    secondaryMuscles: ["triceps"],
+    equipment: "barbell",
+    movementPattern: "horizontal_push",
+  },
+  {
+    name: "Decline Bench Press",
+    primaryMuscles: ["chest"],
+    secondaryMuscles: ["triceps", "front_delts"],
+    equipment: "barbell",
+    movementPattern: "horizontal_push",
+  },
+  {
+    name: "Dumbbell Bench Press",
+    primaryMuscles: ["chest"],
+    secondaryMuscles: ["front_delts", "triceps"],
+    equipment: "dumbbell",
+    movementPattern: "horizontal_push",
+  },
+  {
+    name: "Dumbbell Flyes",
+    primaryMuscles: ["chest"],
+    secondaryMuscles: ["front_delts"],
+    equipment: "dumbbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Push-ups",
+    measurementType: "reps",
+    primaryMuscles: ["chest"],
+    secondaryMuscles: ["front_delts", "triceps", "abs"],
+    equipment: "bodyweight",
+    movementPattern: "horizontal_push",
+  },
+  {
+    name: "Cable Flyes",
+    primaryMuscles: ["chest"],
+    secondaryMuscles: ["front_delts"],
+    equipment: "cable",
+    movementPattern: "isolation",
+  },
 
   // Back
-  "Deadlift",
-  "Barbell Row",
-  "Dumbbell Row",
-  "Pull-ups",
-  "Chin-ups",
-  "Lat Pulldown",
-  "Seated Cable Row",
-  "T-Bar Row",
+  {
+    name: "Deadlift",
+    primaryMuscles: ["hamstrings", "glutes", "lower_back"],
+    secondaryMuscles: ["quads", "lats", "traps", "forearms"],
+    equipment: "barbell",
+    movementPattern: "hinge",
+  },
+  {
+    name: "Barbell Row",
+    primaryMuscles: ["lats", "upper_back"],
+    secondaryMuscles: ["rear_delts", "biceps", "lower_back"],
+    equipment: "barbell",
+    movementPattern: "horizontal_pull",
+  },
+  {
+    name: "Dumbbell Row",
+    primaryMuscles: ["lats", "upper_back"],
+    secondaryMuscles: ["rear_delts", "biceps"],
+    equipment: "dumbbell",
+    movementPattern: "horizontal_pull",
+    unilateral: true,
+  },
+  {
+    name: "Pull-ups",
+    measurementType: "bodyweight",
+    primaryMuscles: ["lats"],
+    secondaryMuscles: ["biceps", "upper_back", "forearms"],
+    equipment: "bodyweight",
+    movementPattern: "vertical_pull",
+  },
+  {
+    name: "Chin-ups",
+    measurementType: "bodyweight",
+    primaryMuscles: ["lats", "biceps"],
+    secondaryMuscles: ["upper_back", "forearms"],
+    equipment: "bodyweight",
+    movementPattern: "vertical_pull",
+  },
+  {
+    name: "Lat Pulldown",
+    primaryMuscles: ["lats"],
+    secondaryMuscles: ["biceps", "upper_back"],
+    equipment: "cable",
+    movementPattern: "vertical_pull",
+  },
+  {
+    name: "Seated Cable Row",
+    primaryMuscles: ["upper_back", "lats"],
+    secondaryMuscles: ["rear_delts", "biceps"],
+    equipment: "cable",
+    movementPattern: "horizontal_pull",
+  },
+  {
+    name: "T-Bar Row",
+    primaryMuscles: ["upper_back", "lats"],
+    secondaryMuscles: ["rear_delts", "biceps", "lower_back"],
+    equipment: "barbell",
+    movementPattern: "horizontal_pull",
+  },
 
   // Shoulders
-  "Overhead Press",
-  "Dumbbell Shoulder Press",
-  "Lateral Raises",
-  "Front Raises",
-  "Rear Delt Flyes",
-  "Face Pulls",
-  "Upright Row",
+  {
+    name: "Overhead Press",
+    primaryMuscles: ["front_delts"],
+    secondaryMuscles: ["side_delts", "triceps", "upper_back"],
+    equipment: "barbell",
+    movementPattern: "vertical_push",
+  },
+  {
+    name: "Dumbbell Shoulder Press",
+    primaryMuscles: ["front_delts"],
+    secondaryMuscles: ["side_delts", "triceps"],
+    equipment: "dumbbell",
+    movementPattern: "vertical_push",
+  },
+  {
+    name: "Lateral Raises",
+    primaryMuscles: ["side_delts"],
+    secondaryMuscles: ["traps"],
+    equipment: "dumbbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Front Raises",
+    primaryMuscles: ["front_delts"],
+    secondaryMuscles: ["side_delts"],
+    equipment: "dumbbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Rear Delt Flyes",
+    primaryMuscles: ["rear_delts"],
+    secondaryMuscles: ["upper_back"],
+    equipment: "dumbbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Face Pulls",
+    primaryMuscles: ["rear_delts", "upper_back"],
+    secondaryMuscles: ["traps", "side_delts"],
+    equipment: "cable",
+    movementPattern: "horizontal_pull",
+  },
+  {
+    name: "Upright Row",
+    primaryMuscles: ["side_delts", "traps"],
+    secondaryMuscles: ["biceps", "front_delts"],
+    equipment: "barbell",
+    movementPattern: "vertical_pull",
+  },
 
   // Arms
-  "Barbell Curl",
-  "Dumbbell Curl",
-  "Hammer Curl",
-  "Preacher Curl",
-  "Tricep Pushdown",
-  "Overhead Tricep Extension",
-  "Skull Crushers",
-  "Close-Grip Bench Press",
+  {
+    name: "Barbell Curl",
+    primaryMuscles: ["biceps"],
+    secondaryMuscles: ["forearms"],
+    equipment: "barbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Dumbbell Curl",
+    primaryMuscles: ["biceps"],
+    secondaryMuscles: ["forearms"],
+    equipment: "dumbbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Hammer Curl",
+    primaryMuscles: ["biceps", "forearms"],
+    secondaryMuscles: [],
+    equipment: "dumbbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Preacher Curl",
+    primaryMuscles: ["biceps"],
+    secondaryMuscles: ["forearms"],
+    equipment: "barbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Tricep Pushdown",
+    primaryMuscles: ["triceps"],
+    secondaryMuscles: [],
+    equipment: "cable",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Overhead Tricep Extension",
+    primaryMuscles: ["triceps"],
+    secondaryMuscles: [],
+    equipment: "cable",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Skull Crushers",
+    primaryMuscles: ["triceps"],
+    secondaryMuscles: [],
+    equipment: "barbell",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Close-Grip Bench Press",
+    primaryMuscles: ["triceps", "chest"],
+    secondaryMuscles: ["front_delts"],
+    equipment: "barbell",
+    movementPattern: "horizontal_push",
+  },
 
   // Legs
-  "Squat",
-  "Front Squat",
-  "Leg Press",
-  "Romanian Deadlift",
-  "Leg Curl",
-  "Leg Extension",
-  "Calf Raises",
-  "Walking Lunges",
-  "Bulgarian Split Squat",
+  {
+    name: "Squat",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["hamstrings", "lower_back", "abs"],
+    equipment: "barbell",
+    movementPattern: "squat",
+  },
+  {
+    name: "Front Squat",
+    primaryMuscles: ["quads"],
+    secondaryMuscles: ["glutes", "upper_back", "abs"],
+    equipment: "barbell",
+    movementPattern: "squat",
+  },
+  {
+    name: "Leg Press",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["hamstrings"],
+    equipment: "machine",
+    movementPattern: "squat",
+  },
+  {
+    name: "Romanian Deadlift",
+    primaryMuscles: ["hamstrings", "glutes"],
+    secondaryMuscles: ["lower_back", "forearms"],
+    equipment: "barbell",
+    movementPattern: "hinge",
+  },
+  {
+    name: "Leg Curl",
+    primaryMuscles: ["hamstrings"],
+    secondaryMuscles: ["calves"],
+    equipment: "machine",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Leg Extension",
+    primaryMuscles: ["quads"],
+    secondaryMuscles: [],
+    equipment: "machine",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Calf Raises",
+    primaryMuscles: ["calves"],
+    secondaryMuscles: [],
+    equipment: "machine",
+    movementPattern: "isolation",
+  },
+  {
+    name: "Walking Lunges",
+    measurementType: "bodyweight",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["hamstrings", "calves"],
+    equipment: "bodyweight",
+    movementPattern: "lunge",
+    unilateral: true,
+  },
+  {
+    name: "Bulgarian Split Squat",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["hamstrings"],
+    equipment: "dumbbell",
+    movementPattern: "lunge",
+    unilateral: true,
+  },
 
   // Core
-  "Plank",
-  "Crunches",
-  "Russian Twists",
-  "Hanging Leg Raises",
-  "Cable Crunches",
+  {
+    name: "Plank",
+    measurementType: "duration",
+    primaryMuscles: ["abs"],
+    secondaryMuscles: ["obliques", "lower_back"],
+    equipment: "bodyweight",
+    movementPattern: "core",
+  },
+  {
+    name: "Crunches",
+    measurementType: "reps",
+    primaryMuscles: ["abs"],
+    secondaryMuscles: [],
+    equipment: "bodyweight",
+    movementPattern: "core",
+  },
+  {
+    name: "Russian Twists",
+    measurementType: "reps",
+    primaryMuscles: ["obliques"],
+    secondaryMuscles: ["abs"],
+    equipment: "bodyweight",
+    movementPattern: "core",
+  },
+  {
+    name: "Hanging Leg Raises",
+    measurementType: "reps",
+    primaryMuscles: ["abs"],
+    secondaryMuscles: ["obliques", "forearms"],
+    equipment: "bodyweight",
+    movementPattern: "core",
+  },
+  {
+    name: "Cable Crunches",
+    primaryMuscles: ["abs"],
+    secondaryMuscles: ["obliques"],
+    equipment: "cable",
+    movementPattern: "core",
+  },
+
+  // Conditioning
+  {
+    name: "Farmer's Carry",
+    measurementType: "distance_duration",
+    primaryMuscles: ["forearms", "traps"],
+    secondaryMuscles: ["abs", "obliques", "glutes"],
+    equipment: "dumbbell",
+    movementPattern: "carry",
+  },
+  {
+    name: "Sled Push",
+    measurementType: "distance_duration",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["calves", "hamstrings"],
+    equipment: "other",
+    movementPattern: "cardio",
+  },
+  {
+    name: "Rowing Machine",
+    measurementType: "distance_duration",
+    primaryMuscles: ["upper_back", "lats"],
+    secondaryMuscles: ["quads", "hamstrings", "biceps"],
+    equipment: "machine",
+    movementPattern: "cardio",
+  },
 ];
 
+// Abbreviations and other common names people search and import under
+const commonAliases: Record<string, string[]> = {
+  "Bench Press": ["Barbell Bench Press", "Flat Bench", "BP"],
+  "Incline Bench Press": ["Incline Barbell Bench Press"],
+  "Dumbbell Bench Press": ["DB Bench Press", "DB Bench"],
+  "Dumbbell Flyes": ["DB Flyes", "Dumbbell Fly", "Chest Fly"],
+  "Push-ups": ["Press-ups"],
+  "Deadlift": ["Conventional Deadlift", "DL"],
+  "Barbell Row": ["Bent Over Row", "Bent-Over Barbell Row"],
+  "Dumbbell Row": ["One-Arm Dumbbell Row", "DB Row"],
+  "Lat Pulldown": ["Lat Pull-down", "Pulldown"],
+  "Overhead Press": ["OHP", "Military Press", "Standing Press", "Shoulder Press"],
+  "Dumbbell Shoulder Press": ["DB Shoulder Press", "Seated Dumbbell Press"],
+  "Lateral Raises": ["Side Raises", "Side Lateral Raise"],
+  "Rear Delt Flyes": ["Reverse Flyes", "Rear Delt Fly"],
+  "Tricep Pushdown": ["Triceps Pushdown", "Cable Pushdown"],
+  "Overhead Tricep Extension": ["Overhead Triceps Extension"],
+  "Skull Crushers": ["Lying Tricep Extension", "Lying Triceps Extension"],
+  "Close-Grip Bench Press": ["CGBP"],
+  "Squat": ["Back Squat", "Barbell Squat"],
+  "Romanian Deadlift": ["RDL", "Stiff-Leg Deadlift"],
+  "Leg Curl": ["Hamstring Curl", "Lying Leg Curl"],
+  "Calf Raises": ["Standing Calf Raise"],
+  "Bulgarian Split Squat": ["BSS", "Rear-Foot Elevated Split Squat"],
+  "Hanging Leg Raises": ["Hanging Knee Raise"],
+  "Farmer's Carry": ["Farmer's Walk", "Farmers Walk"],
+  "Rowing Machine": ["Rower", "Erg", "Indoor Row"],
+};
+
+// Add any aliases the shared library is missing
+async function seedAliases() {
+  const library = await db
+    .select({ id: exercises.id, name: exercises.name })
+    .from(exercises)
+    .where(isNull(exercises.userId));
+  const idsByName = new Map(library.map((e) => [e.name, e.id]));
+
+  const values = Object.entries(commonAliases).flatMap(([name, aliases]) => {
+    const exerciseId = idsByName.get(name);
+    return exerciseId ? aliases.map((alias) => ({ exerciseId, alias })) : [];
+  });
+
+  const added = await db
+    .insert(exerciseAliases)
+    .values(values)
+    .onConflictDoNothing()
+    .returning({ id: exerciseAliases.id });
+  console.log(`Added ${added.length} aliases`);
+}
+
 async function seedExercises() {
   console.log("Seeding exercises...");
 
   try {
-    // Check if exercises already exist
-    const existingExercises = await db.select().from(exercises);
+    // Check if the shared library already exists; users' custom exercises
+    // are left alone
+    const existingExercises = await db
+      .select()
+      .from(exercises)
+      .where(isNull(exercises.userId));
 
     if (existingExercises.length > 0) {
-      console.log(`Database already has ${existingExercises.length} exercises. Skipping seed.`);
+      console.log(`Database already has ${existingExercises.length} exercises. Updating details.`);
+
+      // Databases seeded earlier are missing measurement types and muscle
+      // data, and may be missing exercises added to the list since
+      const existingNames = new Set(existingExercises.map((e) => e.name));
+      for (const exercise of commonExercises) {
+        if (!existingNames.has(exercise.name)) {
+          await db.insert(exercises).values(exercise);
+          console.log(`Added: ${exercise.name}`);
+          continue;
+        }
+
+        await db
+          .update(exercises)
+          .set({ ...exercise, updatedAt: new Date() })
+          .where(
+            and(eq(exercises.name, exercise.name), isNull(exercises.userId))
+          );
+        console.log(`Updated: ${exercise.name}`);
+      }
+
+      await seedAliases();
       return;
     }
 
     // Insert exercises
-    for (const exerciseName of commonExercises) {
-      await db.insert(exercises).values({ name: exerciseName });
-      console.log(`Added: ${exerciseName}`);
+    for (const exercise of commonExercises) {
+      await db.insert(exercises).values(exercise);
+      console.log(`Added: ${exercise.name}`);
     }
 
+    await seedAliases();
+
     console.log(`Successfully seeded ${commonExercises.length} exercises!`);
   } catch (error) {
     console.error("Error seeding exercises:", error);